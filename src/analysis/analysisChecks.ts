@@ -0,0 +1,565 @@
+// src/analysis/analysisChecks.ts
+import { spawnSync } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { ArticleOutput } from '../scraper/index.js';
+import { setLlmProvider } from './claudeClient.js';
+import { LlmProvider, LlmRequest, LlmUsage } from './llmProvider.js';
+import { getModelPricing, priceUsage } from './modelPricing.js';
+import { createAnthropicProvider, createFakeProvider, createOpenAiCompatibleProvider } from './providers/index.js';
+import { analyzeArticlesBatch, createBatchAnalysisOutput } from './relevanceAnalyzer.js';
+import { BudgetExceededError, getBudgetStatus, getMonthlyUsage, recordUsage, releaseBudget, reserveBudget, startUsageRun } from './usageLedger.js';
+
+// Outcome of one behaviour check
+export interface CheckResult {
+  name: string;
+  problems: string[]; // Empty when the check passed
+}
+
+// A behaviour check: returns what went wrong
+export interface Check {
+  name: string;
+  run: () => Promise<string[]>;
+}
+
+const CRITERIA = 'Articles about public transit funding';
+
+/**
+ * Articles with distinct, stable content
+ */
+export function createTestArticles(count: number): ArticleOutput[] {
+  return Array.from({ length: count }, (_, index) => ({
+    alertName: 'Transit',
+    title: `Transit story ${index + 1}`,
+    link: `https://news.example.com/transit-${index + 1}`,
+    content: `Story ${index + 1}: the council voted on bus lane funding. `.repeat(10),
+  }));
+}
+
+/**
+ * Get the ARTICLE_IDs in a request
+ */
+export function getRequestArticleIds(request: LlmRequest): string[] {
+  const text = request.messages.find(message => message.role === 'user')?.content || '';
+  return [...text.matchAll(/^ARTICLE_ID: (\S+)/gm)].map(match => match[1]);
+}
+
+/**
+ * A valid record_relevance input for the given IDs
+ */
+function scoreAll(ids: string[]): unknown {
+  return { results: ids.map(articleId => ({ articleId, relevanceScore: 40, explanation: 'Mentions transit funding.' })) };
+}
+
+/**
+ * Wrap a provider to count the requests it is sent
+ */
+function countRequests(provider: LlmProvider): { provider: LlmProvider; requests: LlmRequest[] } {
+  const requests: LlmRequest[] = [];
+  return {
+    requests,
+    provider: {
+      name: provider.name,
+      complete: request => {
+        requests.push(request);
+        return provider.complete(request);
+      },
+    },
+  };
+}
+
+/**
+ * Serve JSON responses from a local server for the duration of a check
+ */
+async function withJsonServer<T>(
+  respond: (body: any) => { status: number; json: unknown },
+  use: (baseUrl: string, bodies: any[]) => Promise<T>
+): Promise<T> {
+  const bodies: any[] = [];
+  const server = http.createServer((req, res) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      const body = JSON.parse(data);
+      bodies.push(body);
+      const { status, json } = respond(body);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(json));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    return await use(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, bodies);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+/**
+ * A chat completion that calls the tool with the given arguments
+ */
+function toolCallCompletion(name: string, args: string): unknown {
+  return {
+    choices: [{
+      finish_reason: 'tool_calls',
+      message: { content: null, tool_calls: [{ id: 'call_1', function: { name, arguments: args } }] },
+    }],
+    usage: { prompt_tokens: 100, completion_tokens: 20 },
+  };
+}
+
+/**
+ * List the articles whose status isn't the expected one
+ */
+function checkStatuses(articles: { title: string; analysisStatus: string }[], expected: string): string[] {
+  return articles
+    .filter(article => article.analysisStatus !== expected)
+    .map(article => `${article.title} was ${article.analysisStatus}, expected ${expected}`);
+}
+
+// Analysis through the provider interface, with the fake and OpenAI-compatible backends
+export const PROVIDER_CHECKS: Check[] = [
+  {
+    name: 'fake provider scores every article, the same way each time',
+    run: async () => {
+      setLlmProvider(createFakeProvider());
+      const first = await analyzeArticlesBatch(createTestArticles(3), CRITERIA, 3);
+      const second = await analyzeArticlesBatch(createTestArticles(3), CRITERIA, 3);
+      const scores = (results: typeof first) => results.map(article => `${article.title}=${article.relevanceScore}`).sort().join(', ');
+
+      return [
+        ...checkStatuses(first, 'analyzed'),
+        ...(scores(first) === scores(second) ? [] : [`scores changed between runs: ${scores(first)} / ${scores(second)}`]),
+      ];
+    },
+  },
+  {
+    name: 'invalid output gets a repair request',
+    run: async () => {
+      const { provider, requests } = countRequests(createFakeProvider(request =>
+        request.messages.length > 1 ? scoreAll(getRequestArticleIds(request)) : { results: [] }
+      ));
+      setLlmProvider(provider);
+      const results = await analyzeArticlesBatch(createTestArticles(2), CRITERIA, 2);
+      const repair = requests[1]?.messages.at(-1);
+
+      return [
+        ...checkStatuses(results, 'analyzed'),
+        ...(requests.length === 2 ? [] : [`${requests.length} requests sent, expected 2`]),
+        ...(repair?.role === 'tool' && repair.isError ? [] : ['repair request did not return the validation error as a tool result']),
+      ];
+    },
+  },
+  {
+    name: 'output still invalid after repair splits the batch',
+    run: async () => {
+      const { provider, requests } = countRequests(createFakeProvider(request => {
+        const ids = getRequestArticleIds(request);
+        return ids.length > 2 ? { results: [] } : scoreAll(ids);
+      }));
+      setLlmProvider(provider);
+      const results = await analyzeArticlesBatch(createTestArticles(4), CRITERIA, 4);
+      const sizes = requests.map(request => getRequestArticleIds(request).length).join(', ');
+
+      return [
+        ...checkStatuses(results, 'analyzed'),
+        ...(sizes === '4, 4, 2, 2' ? [] : [`requests held ${sizes} articles, expected 4, 4, 2, 2`]),
+      ];
+    },
+  },
+  {
+    name: 'provider error fails the batch without splitting it',
+    run: async () => {
+      const { provider, requests } = countRequests({
+        name: 'fake',
+        complete: async () => { throw new Error('connect ECONNREFUSED'); },
+      });
+      setLlmProvider(provider);
+      const results = await analyzeArticlesBatch(createTestArticles(4), CRITERIA, 4);
+
+      return [
+        ...checkStatuses(results, 'failed'),
+        ...(requests.length === 1 ? [] : [`${requests.length} requests sent, expected 1`]),
+        ...(results.every(article => article.relevanceExplanation.includes('ECONNREFUSED')) ? [] : ['explanation does not give the error']),
+      ];
+    },
+  },
+  {
+    name: 'openai-compatible HTTP error fails the batch without splitting it',
+    run: () => withJsonServer(
+      () => ({ status: 404, json: { error: 'model "llama3.1" not found' } }),
+      async (baseUrl, bodies) => {
+        setLlmProvider(createOpenAiCompatibleProvider({ baseUrl: `${baseUrl}/v1`, timeout: 5000 }));
+        const results = await analyzeArticlesBatch(createTestArticles(3), CRITERIA, 3);
+
+        return [
+          ...checkStatuses(results, 'failed'),
+          ...(bodies.length === 1 ? [] : [`${bodies.length} requests sent, expected 1`]),
+          ...(results[0]?.relevanceExplanation.includes('HTTP 404') ? [] : [`explanation was "${results[0]?.relevanceExplanation}"`]),
+        ];
+      }
+    ),
+  },
+  {
+    name: 'openai-compatible arguments that are not JSON get a repair request',
+    run: () => withJsonServer(
+      body => {
+        const repairing = body.messages.some((message: any) => message.role === 'tool');
+        const ids = [...body.messages[1].content.matchAll(/^ARTICLE_ID: (\S+)/gm)].map((match: RegExpMatchArray) => match[1]);
+        return { status: 200, json: toolCallCompletion('record_relevance', repairing ? JSON.stringify(scoreAll(ids)) : '{"results": [') };
+      },
+      async (baseUrl, bodies) => {
+        setLlmProvider(createOpenAiCompatibleProvider({ baseUrl: `${baseUrl}/v1`, timeout: 5000 }));
+        const results = await analyzeArticlesBatch(createTestArticles(2), CRITERIA, 2);
+
+        return [
+          ...checkStatuses(results, 'analyzed'),
+          ...(bodies.length === 2 ? [] : [`${bodies.length} requests sent, expected 2`]),
+          ...(bodies[0]?.tool_choice?.function?.name === 'record_relevance' ? [] : ['request did not force the record_relevance tool']),
+        ];
+      }
+    ),
+  },
+  {
+    name: 'openai-compatible provider needs LLM_MODEL',
+    run: async () => {
+      // The config is parsed when it is imported, so load it in a fresh process
+      const loadConfig = (model: string) => spawnSync(process.execPath, [...process.execArgv, 'src/config.ts'], {
+        env: { ...process.env, LLM_PROVIDER: 'openai-compatible', LLM_MODEL: model, CLAUDE_MODEL: '' },
+        encoding: 'utf8',
+        timeout: 60000,
+      });
+      const withoutModel = loadConfig('');
+      const withModel = loadConfig('llama3.1');
+
+      return [
+        ...(withoutModel.status !== 0 && withoutModel.stderr.includes('LLM_MODEL is required') ? [] : ['config loaded without LLM_MODEL']),
+        ...(withModel.status === 0 ? [] : [`config failed with LLM_MODEL set: ${withModel.stderr.substring(0, 200)}`]),
+      ];
+    },
+  },
+];
+
+/**
+ * Get the validation messages for a record_relevance input, or none if it is valid
+ */
+function getValidationMessages(expectedIds: string[], input: unknown): string[] {
+  const parsed = createBatchAnalysisOutput(expectedIds).schema.safeParse(input);
+  return parsed.success ? [] : parsed.error.issues.map(issue => issue.message);
+}
+
+// Validation of the structured record_relevance output
+export const OUTPUT_CHECKS: Check[] = [
+  {
+    name: 'validation rejects missing, unknown and repeated article IDs',
+    run: async () => {
+      const result = (articleId: string) => ({ articleId, relevanceScore: 10, explanation: 'Not about transit.' });
+      const messages = getValidationMessages(['A1', 'A2'], { results: [result('A1'), result('A1'), result('A9')] });
+      const expected = ['Missing results for article IDs A2', 'Unknown article IDs A9', 'More than one result for article IDs A1'];
+
+      return expected
+        .filter(message => !messages.includes(message))
+        .map(message => `no "${message}" issue (got ${messages.join('; ') || 'none'})`);
+    },
+  },
+  {
+    name: 'validation trims IDs and explanations, rounds scores and rejects scores out of range',
+    run: async () => {
+      const parsed = createBatchAnalysisOutput(['A1']).schema.safeParse({
+        results: [{ articleId: ' A1 ', relevanceScore: 72.6, explanation: ' Covers the vote. ' }],
+      });
+      const result = parsed.success ? parsed.data.results[0] : undefined;
+      const outOfRange = getValidationMessages(['A1'], { results: [{ articleId: 'A1', relevanceScore: 140, explanation: 'x' }] });
+
+      return [
+        ...(result?.articleId === 'A1' && result.relevanceScore === 73 && result.explanation === 'Covers the vote.'
+          ? []
+          : [`parsed as ${JSON.stringify(result)}`]),
+        ...(outOfRange.length > 0 ? [] : ['a score of 140 was accepted']),
+      ];
+    },
+  },
+  {
+    name: 'an article whose output stays invalid is left unscored, not scored 0',
+    run: async () => {
+      const { provider, requests } = countRequests(createFakeProvider(() => ({ results: [{ articleId: 'A1', relevanceScore: 'high' }] })));
+      setLlmProvider(provider);
+      const [result] = await analyzeArticlesBatch(createTestArticles(1), CRITERIA, 1);
+
+      return [
+        ...checkStatuses([result], 'failed'),
+        ...(result.relevanceScore === null ? [] : [`scored ${result.relevanceScore}`]),
+        ...(requests.length === 2 ? [] : [`${requests.length} requests sent, expected the request and one repair`]),
+      ];
+    },
+  },
+];
+
+/**
+ * A Messages API response that calls the tool with the given input
+ */
+function toolUseMessage(name: string, input: unknown, usage: Record<string, number>): unknown {
+  return {
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-3-haiku-20240307',
+    content: [{ type: 'tool_use', id: 'toolu_1', name, input }],
+    stop_reason: 'tool_use',
+    stop_sequence: null,
+    usage: { input_tokens: 0, output_tokens: 0, cache_read_input_tokens: 0, cache_creation_input_tokens: 0, ...usage },
+  };
+}
+
+// Prompt caching: a shared system prompt, marked for caching and priced at the cache rates
+export const CACHING_CHECKS: Check[] = [
+  {
+    name: 'criteria are sent once, in a system prompt shared by every request',
+    run: async () => {
+      const { provider, requests } = countRequests(createFakeProvider());
+      setLlmProvider(provider);
+      await analyzeArticlesBatch(createTestArticles(3), CRITERIA, 1);
+      const userTurns = requests.map(request => request.messages.find(message => message.role === 'user')?.content || '');
+
+      return [
+        ...(requests.length === 3 ? [] : [`${requests.length} requests sent, expected one per article`]),
+        ...(new Set(requests.map(request => request.system)).size === 1 ? [] : ['system prompt differs between requests']),
+        ...(requests[0]?.system.includes(CRITERIA) ? [] : ['system prompt does not contain the criteria']),
+        ...(userTurns.some(text => text.includes(CRITERIA)) ? ['criteria repeated in the user turn'] : []),
+      ];
+    },
+  },
+  {
+    name: 'anthropic requests mark the system prompt for caching and cache tokens are priced at the cache rates',
+    run: () => withJsonServer(
+      body => {
+        const ids = [...body.messages[0].content.matchAll(/^ARTICLE_ID: (\S+)/gm)].map((match: RegExpMatchArray) => match[1]);
+        return { status: 200, json: toolUseMessage('record_relevance', scoreAll(ids), { input_tokens: 50, output_tokens: 20, cache_read_input_tokens: 2000 }) };
+      },
+      async (baseUrl, bodies) => {
+        const before = await getMonthlyUsage();
+        const savedBaseUrl = process.env.ANTHROPIC_BASE_URL;
+        process.env.ANTHROPIC_BASE_URL = baseUrl; // Read when the client is created
+        try {
+          setLlmProvider(createAnthropicProvider('test-key'));
+        } finally {
+          if (savedBaseUrl === undefined) {
+            delete process.env.ANTHROPIC_BASE_URL;
+          } else {
+            process.env.ANTHROPIC_BASE_URL = savedBaseUrl;
+          }
+        }
+        const results = await analyzeArticlesBatch(createTestArticles(2), CRITERIA, 2);
+        const after = await getMonthlyUsage();
+
+        const usage = { inputTokens: 50, outputTokens: 20, cacheReadTokens: 2000, cacheWriteTokens: 0 };
+        const expectedCost = priceUsage(getModelPricing('anthropic', 'claude-3-haiku-20240307'), usage);
+        const cost = after.cost - before.cost;
+        const system = bodies[0]?.system?.[0];
+
+        return [
+          ...checkStatuses(results, 'analyzed'),
+          ...(system?.cache_control?.type === 'ephemeral' ? [] : [`system block was ${JSON.stringify(system)?.substring(0, 200)}`]),
+          ...(after.cacheReadTokens - before.cacheReadTokens === 2000 ? [] : [`${after.cacheReadTokens - before.cacheReadTokens} cache-read tokens recorded, expected 2000`]),
+          ...(Math.abs(cost - expectedCost) < 1e-12 ? [] : [`recorded $${cost}, expected $${expectedCost}`]),
+          ...(expectedCost < priceUsage(getModelPricing('anthropic', 'claude-3-haiku-20240307'), { ...usage, inputTokens: 2050, cacheReadTokens: 0 })
+            ? []
+            : ['cache reads cost as much as uncached input']),
+        ];
+      }
+    ),
+  },
+];
+
+/**
+ * Record a request that cost the given amount
+ */
+function recordCost(cost: number): Promise<void> {
+  return recordUsage('fake', 'fake-model', { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 }, cost);
+}
+
+/**
+ * Load this month's usage in a fresh process with its own output directory
+ * (the ledger is read once per process)
+ */
+function loadMonthlyUsageIn(outputDir: string): { cost: number; inputTokens: number; requestCount: number } | string {
+  const loaded = spawnSync(process.execPath, [
+    ...process.execArgv,
+    '--input-type=module',
+    '-e',
+    "const { getMonthlyUsage } = await import('./src/analysis/usageLedger.ts'); console.log(JSON.stringify(await getMonthlyUsage()));",
+  ], { env: { ...process.env, OUTPUT_DIR: outputDir }, encoding: 'utf8', timeout: 60000 });
+
+  const line = loaded.stdout.trim().split('\n').pop() || '';
+  return loaded.status === 0 && line.startsWith('{') ? JSON.parse(line) : `loading failed: ${loaded.stderr.substring(0, 200)}`;
+}
+
+// Model prices, budget reservations and the monthly usage ledger. The
+// threshold check spends most of the budget, so it runs last.
+export const USAGE_CHECKS: Check[] = [
+  {
+    name: 'unknown models fall back to the provider default price',
+    run: async () => {
+      const inputPrice = (provider: 'anthropic' | 'openai-compatible', model: string) => getModelPricing(provider, model).inputCostPer1k;
+      const expected: [string, number, number][] = [
+        ['claude-3-5-sonnet-20241022', inputPrice('anthropic', 'claude-3-5-sonnet-20241022'), 0.003],
+        ['claude-opus-4-1-20250805', inputPrice('anthropic', 'claude-opus-4-1-20250805'), 0.015],
+        ['claude-opus-4-5-20251101', inputPrice('anthropic', 'claude-opus-4-5-20251101'), 0.005],
+        ['claude-unreleased (Claude 3 Haiku price)', inputPrice('anthropic', 'claude-unreleased'), 0.00025],
+        ['openai-compatible llama3.1 (free)', inputPrice('openai-compatible', 'llama3.1'), 0],
+      ];
+      const haiku = getModelPricing('anthropic', 'claude-3-haiku-20240307');
+
+      return [
+        ...expected
+          .filter(([, price, expectedPrice]) => Math.abs(price - expectedPrice) > 1e-12)
+          .map(([model, price, expectedPrice]) => `${model} costs $${price} per 1K input tokens, expected $${expectedPrice}`),
+        ...(Math.abs(haiku.cacheWriteCostPer1k - haiku.inputCostPer1k * 1.25) < 1e-12 && Math.abs(haiku.cacheReadCostPer1k - haiku.inputCostPer1k * 0.1) < 1e-12
+          ? []
+          : [`cache prices ${haiku.cacheWriteCostPer1k} / ${haiku.cacheReadCostPer1k} are not 1.25x / 0.1x the input price`]),
+      ];
+    },
+  },
+  {
+    name: 'a reservation that would pass the budget is refused until others are released',
+    run: async () => {
+      const { monthlyLimit, monthSpent } = await getBudgetStatus();
+      const share = (monthlyLimit - monthSpent) * 0.6;
+      const problems: string[] = [];
+
+      reserveBudget(share);
+      try {
+        reserveBudget(share);
+        releaseBudget(share);
+        problems.push('two reservations of 60% of the remaining budget were both accepted');
+      } catch (error) {
+        if (!(error instanceof BudgetExceededError)) {
+          throw error;
+        }
+      }
+
+      releaseBudget(share);
+      reserveBudget(share); // Accepted again once the first is released
+      releaseBudget(share);
+      return problems;
+    },
+  },
+  {
+    name: 'a request costing more than its reservation stops later requests until the next run',
+    run: async () => {
+      const usage: LlmUsage = { inputTokens: 1_000_000, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+      const { provider, requests } = countRequests({
+        name: 'anthropic',
+        complete: async request => ({
+          text: '',
+          toolCall: { id: 'toolu_1', name: request.tool.name, input: scoreAll(getRequestArticleIds(request)) },
+          stopReason: 'tool_use',
+          usage,
+        }),
+      });
+      setLlmProvider(provider);
+      const results = await analyzeArticlesBatch(createTestArticles(3), CRITERIA, 1);
+
+      startUsageRun();
+      setLlmProvider(createFakeProvider());
+      const nextRun = await analyzeArticlesBatch(createTestArticles(1), CRITERIA, 1);
+
+      return [
+        ...(requests.length === 1 ? [] : [`${requests.length} requests sent, expected 1`]),
+        ...checkStatuses(results.slice(0, 1), 'analyzed'),
+        ...checkStatuses(results.slice(1), 'skipped'),
+        ...checkStatuses(nextRun, 'analyzed'),
+      ];
+    },
+  },
+  {
+    name: "this month's spending is carried over from the old cost tracking file",
+    run: async () => {
+      const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'check-ledger-'));
+      const staleDir = await fs.mkdtemp(path.join(os.tmpdir(), 'check-ledger-'));
+      try {
+        const legacy = (lastUpdated: Date) => JSON.stringify({ totalCost: 3.5, inputTokens: 1000, outputTokens: 200, lastUpdated: lastUpdated.toISOString() });
+        const lastYear = new Date();
+        lastYear.setFullYear(lastYear.getFullYear() - 1);
+        await fs.writeFile(path.join(outputDir, 'claude_cost_tracking.json'), legacy(new Date()));
+        await fs.writeFile(path.join(staleDir, 'claude_cost_tracking.json'), legacy(lastYear));
+
+        const migrated = loadMonthlyUsageIn(outputDir);
+        const reloaded = loadMonthlyUsageIn(outputDir); // The ledger now exists, so nothing is migrated twice
+        const stale = loadMonthlyUsageIn(staleDir);
+
+        return [
+          ...[migrated, reloaded, stale].filter((usage): usage is string => typeof usage === 'string'),
+          ...(typeof migrated !== 'string' && migrated.cost === 3.5 && migrated.inputTokens === 1000 ? [] : [`migrated usage was ${JSON.stringify(migrated)}`]),
+          ...(typeof reloaded !== 'string' && reloaded.cost === 3.5 && reloaded.requestCount === 1 ? [] : [`reloaded usage was ${JSON.stringify(reloaded)}`]),
+          ...(typeof stale !== 'string' && stale.cost === 0 ? [] : [`an earlier month's spending was carried over: ${JSON.stringify(stale)}`]),
+        ];
+      } finally {
+        await fs.rm(outputDir, { recursive: true, force: true });
+        await fs.rm(staleDir, { recursive: true, force: true });
+      }
+    },
+  },
+  {
+    name: 'budget warnings at 50%, 80% and 100%, once each per run, then requests are refused',
+    run: async () => {
+      const warnings: string[] = [];
+      console.warn = (...args: unknown[]) => { warnings.push(args.join(' ')); };
+      startUsageRun();
+
+      // Spend up to a percentage of the budget and list the warning levels logged on the way
+      const spendTo = async (percent: number) => {
+        const before = warnings.length;
+        const { monthlyLimit, monthSpent } = await getBudgetStatus();
+        await recordCost(Math.max(0, (monthlyLimit * percent) / 100 - monthSpent));
+        return warnings.slice(before).map(warning => warning.match(/(\d+)% of the monthly budget/)?.[1]).join(',');
+      };
+
+      const expected: [number, string][] = [[40, ''], [55, '50'], [60, ''], [85, '80'], [101, '100'], [110, '']];
+      const problems: string[] = [];
+      for (const [percent, expectedLevels] of expected) {
+        const got = await spendTo(percent);
+        if (got !== expectedLevels) {
+          problems.push(`at ${percent}% warned for ${got || 'nothing'}, expected ${expectedLevels || 'nothing'}`);
+        }
+      }
+
+      try {
+        reserveBudget(0.0001);
+        releaseBudget(0.0001);
+        problems.push('a request was allowed over the budget');
+      } catch (error) {
+        if (!(error instanceof BudgetExceededError)) {
+          throw error;
+        }
+      }
+
+      return problems;
+    },
+  },
+];
+
+/**
+ * Run checks one after another, keeping their log output out of the report
+ */
+export async function runChecks(checks: Check[]): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+  const { log, warn, error } = console;
+
+  for (const check of checks) {
+    console.log = console.warn = console.error = () => {};
+    try {
+      results.push({ name: check.name, problems: await check.run() });
+    } catch (checkError: any) {
+      results.push({ name: check.name, problems: [`threw ${checkError?.stack || checkError}`] });
+    } finally {
+      Object.assign(console, { log, warn, error });
+    }
+  }
+
+  return results;
+}
@@ -1,19 +1,41 @@
 // src/analysis/claudeClient.ts
-import Anthropic from '@anthropic-ai/sdk';
 import PQueue from 'p-queue';
-import { promises as fs } from 'node:fs';
-import path from 'node:path';
+import { z } from 'zod';
 import CONFIG from '../config.js';
+import { LlmMessage, LlmProvider, LlmRequest, LlmResponse } from './llmProvider.js';
+import { createConfiguredProvider } from './providers/index.js';
+import { ModelPricing, getModelPricing, priceUsage } from './modelPricing.js';
+import { BudgetExceededError, assertBudgetOpen, getMonthlyUsage, loadUsageLedger, recordUsage, releaseBudget, reserveBudget } from './usageLedger.js';
 
-// Interface for cost tracking
+// This month's usage, added up from the usage ledger
 export interface CostTracking {
   totalCost: number;
   inputTokens: number;
   outputTokens: number;
-  lastUpdated: string;
+  cacheReadTokens: number; // Prompt tokens read from the cache, billed at the cache-read price
+  cacheWriteTokens: number; // Prompt tokens written to the cache, billed at the cache-write price
   requestCount: number;
 }
 
+// A result Claude must return by calling a tool, so it arrives as JSON
+export interface StructuredOutput<T> {
+  toolName: string;
+  description: string;
+  inputSchema: Record<string, unknown>; // JSON schema shown to Claude
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>; // Validation applied to what comes back
+}
+
+// Outcome of an analysis request: validated data, or why there is none.
+// 'invalid' means the provider answered but never with output matching the
+// schema; 'failed' means the request itself failed. requests counts what was
+// sent to the provider, including repair requests.
+export type AnalysisResult<T> =
+  | { status: 'ok'; data: T; requests: number }
+  | { status: 'invalid' | 'failed' | 'skipped'; error: string; requests: number };
+
+// The first request plus one repair request for malformed output
+const MAX_OUTPUT_ATTEMPTS = 2;
+
 // Constants for Claude models' token limits
 const MODEL_TOKEN_LIMITS: Record<string, number> = {
   'claude-3-haiku-20240307': 4096,
@@ -23,10 +45,12 @@ const MODEL_TOKEN_LIMITS: Record<string, number> = {
   'default': 4000 // Default fallback
 };
 
-// Initialize Anthropic client with API key validation
-const client = new Anthropic({
-  apiKey: CONFIG.claude.apiKey || process.env.ANTHROPIC_API_KEY,
-});
+// Tokens allowed for what a provider adds around the prompt (tool-use
+// instructions, message framing) when reserving a request's cost
+const REQUEST_OVERHEAD_TOKENS = 1000;
+
+// Provider requests go to; created from the config on first use
+let provider: LlmProvider | undefined;
 
 // Initialize request queue with rate limiting
 const requestQueue = new PQueue({
@@ -36,149 +60,136 @@ const requestQueue = new PQueue({
   autoStart: true
 });
 
-// Set up cost tracking file path
-const costTrackingPath = path.join(CONFIG.outputDir, 'claude_cost_tracking.json');
+/**
+ * Calculate cost based on token usage, at the configured model's prices
+ */
+export function calculateCost(inputTokens: number, outputTokens: number, cacheReadTokens = 0, cacheWriteTokens = 0): number {
+  const pricing = getModelPricing(CONFIG.claude.provider, CONFIG.claude.model);
+  return priceUsage(pricing, { inputTokens, outputTokens, cacheReadTokens, cacheWriteTokens });
+}
 
-// Initialize cost tracking with default values
-let costTracking: CostTracking = {
-  totalCost: 0,
-  inputTokens: 0,
-  outputTokens: 0,
-  lastUpdated: new Date().toISOString(),
-  requestCount: 0
-};
+/**
+ * Rough token count for text sent to Claude (about 4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
 
 /**
- * Load existing cost tracking data
+ * Most tokens a text can take: no tokenizer uses less than a byte per token
  */
-export async function loadCostTracking(): Promise<void> {
-  try {
-    // Create output directory if it doesn't exist
-    await fs.mkdir(path.dirname(costTrackingPath), { recursive: true });
-    
-    const data = await fs.readFile(costTrackingPath, 'utf-8');
-    const loadedData = JSON.parse(data) as CostTracking;
-    
-    // Check if we need to reset for a new month
-    const lastUpdated = new Date(loadedData.lastUpdated);
-    const currentDate = new Date();
-    
-    if (lastUpdated.getMonth() !== currentDate.getMonth() || 
-        lastUpdated.getFullYear() !== currentDate.getFullYear()) {
-      console.log('New month detected, resetting cost tracking');
-      await saveCostTracking(); // Save with default values
-    } else {
-      costTracking = loadedData;
-    }
-  } catch (error) {
-    console.log('No existing cost tracking found, creating new one');
-    await saveCostTracking();
-  }
+function getTokenUpperBound(text: string): number {
+  return Buffer.byteLength(text, 'utf8');
 }
 
 /**
- * Save cost tracking data to file
+ * Get the maximum token limit for the specified model
  */
-export async function saveCostTracking(): Promise<void> {
-  try {
-    await fs.mkdir(path.dirname(costTrackingPath), { recursive: true });
-    await fs.writeFile(
-      costTrackingPath, 
-      JSON.stringify(costTracking, null, 2), 
-      'utf-8'
-    );
-  } catch (error) {
-    console.error('Error saving cost tracking:', error);
+function getModelTokenLimit(model: string): number {
+  return MODEL_TOKEN_LIMITS[model] || MODEL_TOKEN_LIMITS.default;
+}
+
+/**
+ * Get the provider requests are sent to
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    provider = createConfiguredProvider();
   }
+  return provider;
 }
 
 /**
- * Calculate cost based on token usage
- * Current Claude Haiku pricing: $0.00025/1K input tokens, $0.00125/1K output tokens
+ * Send requests to a different provider, such as a fake one in tests
  */
-export function calculateCost(inputTokens: number, outputTokens: number): number {
-  const inputCost = (inputTokens / 1000) * 0.00025; // $0.00025 per 1K input tokens
-  const outputCost = (outputTokens / 1000) * 0.00125; // $0.00125 per 1K output tokens
-  return inputCost + outputCost;
+export function setLlmProvider(replacement: LlmProvider): void {
+  provider = replacement;
 }
 
 /**
- * Update cost tracking with new usage data
+ * Worst-case cost of a request: a byte per prompt token, the system prompt
+ * written to the cache (or sent uncached, whichever costs more), the rest
+ * uncached, and every response token used
  */
-export async function updateCostTracking(inputTokens: number, outputTokens: number): Promise<void> {
-  const cost = calculateCost(inputTokens, outputTokens);
-  
-  costTracking.totalCost += cost;
-  costTracking.inputTokens += inputTokens;
-  costTracking.outputTokens += outputTokens;
-  costTracking.lastUpdated = new Date().toISOString();
-  costTracking.requestCount += 1;
+function reserveRequestCost(request: LlmRequest, pricing: ModelPricing): number {
+  const promptText = JSON.stringify(request.tool) + request.messages
+    .map(message => message.content + (message.role === 'assistant' && message.toolCall ? JSON.stringify(message.toolCall.input) : ''))
+    .join('');
+  const systemRate = Math.max(pricing.inputCostPer1k, pricing.cacheWriteCostPer1k);
   
-  await saveCostTracking();
-  
-  console.log(`Request cost: $${cost.toFixed(4)}`);
-  console.log(`Total cost this month: $${costTracking.totalCost.toFixed(4)}`);
+  return (getTokenUpperBound(request.system) / 1000) * systemRate + priceUsage(pricing, {
+    inputTokens: getTokenUpperBound(promptText) + REQUEST_OVERHEAD_TOKENS,
+    outputTokens: request.maxTokens,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+  });
 }
 
 /**
- * Check if the current cost is under the monthly limit
+ * Send one request through the rate-limited queue and record its usage.
+ * Its worst-case cost is reserved against the budget before it is queued,
+ * and the budget is checked again just before it is sent, so once a request
+ * has cost more than its reservation no queued request goes out.
  */
-export async function checkCostLimit(): Promise<boolean> {
-  // Make sure we have the latest cost data
-  await loadCostTracking();
-  
-  // Temporarily raise the cost limit if it's preventing articles from being analyzed
-  const effectiveCostLimit = Math.max(CONFIG.claude.monthlyCostLimit, 50); // Min $50 to ensure analysis happens
+async function sendMessage(request: LlmRequest): Promise<LlmResponse> {
+  const llm = getLlmProvider();
+  const pricing = getModelPricing(llm.name, request.model);
+  const estimatedCost = reserveRequestCost(request, pricing);
   
-  // Check if we're close to the cost limit
-  if (costTracking.totalCost >= effectiveCostLimit) {
-    console.error(`Monthly cost limit of $${effectiveCostLimit} reached!`);
-    return false;
+  reserveBudget(estimatedCost);
+  try {
+    const response = await requestQueue.add(async () => {
+      assertBudgetOpen();
+      console.log(`Sending request to ${llm.name} (${request.model}) with max_tokens=${request.maxTokens}...`);
+      return await llm.complete(request);
+    });
+    
+    if (!response) {
+      throw new Error(`No response from ${llm.name}`);
+    }
+    
+    const cost = priceUsage(pricing, response.usage);
+    await recordUsage(llm.name, request.model, response.usage, cost, estimatedCost);
+    
+    const cacheNote = response.usage.cacheReadTokens || response.usage.cacheWriteTokens
+      ? ` (cache: ${response.usage.cacheReadTokens} tokens read, ${response.usage.cacheWriteTokens} written)`
+      : '';
+    console.log(`Request cost: $${cost.toFixed(4)}${cacheNote}`);
+    return response;
+  } finally {
+    releaseBudget(estimatedCost);
   }
-  
-  return true;
 }
 
 /**
- * Get the maximum token limit for the specified model
+ * Describe zod validation issues for a log line or a repair prompt
  */
-function getModelTokenLimit(model: string): number {
-  return MODEL_TOKEN_LIMITS[model] || MODEL_TOKEN_LIMITS.default;
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
 }
 
 /**
- * Analyze text with Claude API
+ * Analyze text with the configured provider, asking for the result as a call to the given
+ * tool and validating its input against the output's zod schema. The system
+ * prompt goes in its own cacheable block and the user turn holds only the
+ * text, so requests that share instructions can reuse the cache. Malformed
+ * output gets one repair request that shows Claude what was wrong; if that
+ * fails too the result is marked invalid rather than guessed at.
  */
-export async function analyzeText(
+export async function analyzeText<T>(
   text: string, 
-  prompt: string, 
+  systemPrompt: string, 
+  output: StructuredOutput<T>,
   maxResponseTokens = 1000
-): Promise<string | null> {
-  // Check if we're under the cost limit
-  const canProceed = await checkCostLimit();
-  if (!canProceed) {
-    console.error("Cannot analyze: Monthly cost limit reached");
-    return "RELEVANCE_SCORE: 0\nEXPLANATION: Analysis skipped due to cost limits.";
-  }
+): Promise<AnalysisResult<T>> {
+  // The budget check needs this month's spending
+  await loadUsageLedger();
   
   // Handle empty or undefined text gracefully
   const safeText = text || "No content available";
+  let requests = 0; // Requests answered so far
   
   try {
-    // Estimate tokens in the inputs (very rough estimation)
-    const estimatedInputTokens = Math.ceil((safeText.length + prompt.length) / 4);
-    
-    // Check if estimated cost would exceed limit
-    const estimatedCost = calculateCost(
-      estimatedInputTokens, 
-      maxResponseTokens
-    );
-    
-    if (costTracking.totalCost + estimatedCost > CONFIG.claude.monthlyCostLimit * 2) { // Double the limit as buffer
-      console.error(`This request would exceed the monthly cost limit of $${CONFIG.claude.monthlyCostLimit}`);
-      return "RELEVANCE_SCORE: 0\nEXPLANATION: Analysis skipped due to cost constraints.";
-    }
-    
     // Ensure maxResponseTokens does not exceed the model's limit
     const modelLimit = getModelTokenLimit(CONFIG.claude.model);
     const safeMaxTokens = Math.min(maxResponseTokens, modelLimit);
@@ -187,62 +198,65 @@ export async function analyzeText(
       console.warn(`Requested ${maxResponseTokens} tokens exceeds model limit of ${modelLimit}. Using ${safeMaxTokens} tokens instead.`);
     }
     
-    // Add the request to the rate-limited queue
-    const responseData = await requestQueue.add(async () => {
-      console.log(`Sending request to Claude API with max_tokens=${safeMaxTokens}...`);
-      return await client.messages.create({
+    const messages: LlmMessage[] = [{ role: 'user', content: safeText }];
+    let problem = '';
+    
+    for (let attempt = 1; attempt <= MAX_OUTPUT_ATTEMPTS; attempt++) {
+      const response = await sendMessage({
         model: CONFIG.claude.model,
-        max_tokens: safeMaxTokens,
-        messages: [
-          {
-            role: 'user',
-            content: `${prompt}\n\nText to analyze:\n\n${safeText}`,
-          },
-        ],
+        maxTokens: safeMaxTokens,
+        system: systemPrompt,
+        tool: { name: output.toolName, description: output.description, inputSchema: output.inputSchema },
+        messages: [...messages],
       });
-    });
-    
-    // Extract usage information if available
-    let inputTokenCount = estimatedInputTokens;
-    let outputTokenCount = Math.ceil(safeMaxTokens / 2); // Default estimate
-    
-    if (responseData && responseData.usage) {
-      inputTokenCount = responseData.usage.input_tokens;
-      outputTokenCount = responseData.usage.output_tokens;
-    } else {
-      console.warn('Token usage information not available in response, using estimates');
+      requests++;
+      
+      const toolCall = response.toolCall?.name === output.toolName ? response.toolCall : undefined;
+      const parsed = toolCall ? output.schema.safeParse(toolCall.input) : undefined;
+      if (parsed?.success) {
+        return { status: 'ok', data: parsed.data, requests };
+      }
+      
+      problem = parsed && !parsed.success
+        ? formatIssues(parsed.error)
+        : `no ${output.toolName} call in the response (stop reason: ${response.stopReason})`;
+      console.warn(`${CONFIG.claude.provider} returned invalid output (attempt ${attempt}/${MAX_OUTPUT_ATTEMPTS}): ${problem}`);
+      
+      // Keep the conversation going so the repair request can point at the mistake
+      messages.push({ role: 'assistant', content: response.text, toolCall });
+      messages.push(toolCall
+        ? {
+            role: 'tool',
+            toolCallId: toolCall.id,
+            isError: true,
+            content: `The input did not match the required schema: ${problem}. Call ${output.toolName} again with the complete, corrected input.`,
+          }
+        : { role: 'user', content: `You must reply by calling the ${output.toolName} tool. Call it now with the complete input.` });
     }
     
-    // Update cost tracking
-    await updateCostTracking(inputTokenCount, outputTokenCount);
-    
-    // Extract content from response
-    const responseContent = responseData && 
-                           responseData.content && 
-                           responseData.content[0] && 
-                           responseData.content[0].text
-                           ? responseData.content[0].text 
-                           : null;
-    
-    if (!responseContent) {
-      console.error("No content returned from Claude API");
-      return "RELEVANCE_SCORE: 0\nEXPLANATION: No analysis could be generated.";
-    }
-    
-    return responseContent;
+    return { status: 'invalid', error: `Invalid output after ${MAX_OUTPUT_ATTEMPTS} attempts: ${problem}`, requests };
   } catch (error: any) {
-    console.error('Error analyzing text with Claude:', error.message);
-    return "RELEVANCE_SCORE: 0\nEXPLANATION: Error during analysis: " + error.message;
+    if (error instanceof BudgetExceededError) {
+      console.error(`Cannot analyze: ${error.message}`);
+      return { status: 'skipped', error: `Analysis skipped: ${error.message}`, requests };
+    }
+    console.error(`Error analyzing text with ${CONFIG.claude.provider}:`, error.message);
+    // The request that failed was sent too
+    return { status: 'failed', error: `Error during analysis: ${error.message}`, requests: requests + 1 };
   }
 }
 
 /**
- * Get current cost information
+ * Get this month's usage from the ledger
  */
 export async function getCostInformation(): Promise<CostTracking> {
-  await loadCostTracking();
-  return { ...costTracking };
-}
-
-// Initialize the cost tracking on module load
-loadCostTracking().catch(err => console.error('Failed to load cost tracking:', err));
\ No newline at end of file
+  const usage = await getMonthlyUsage();
+  return {
+    totalCost: usage.cost,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    cacheReadTokens: usage.cacheReadTokens,
+    cacheWriteTokens: usage.cacheWriteTokens,
+    requestCount: usage.requestCount,
+  };
+}
\ No newline at end of file
@@ -1,6 +1,7 @@
 // src/analysis/index.ts
 import { getCostInformation } from './claudeClient.js';
-import { analyzeArticlesBatch, AnalyzedArticle } from './relevanceAnalyzer.js';
+import { BudgetStatus, formatBudgetStatus, getBudgetStatus, startUsageRun } from './usageLedger.js';
+import { analyzeArticlesBatch, AnalysisStatus, AnalyzedArticle, compareByRelevance } from './relevanceAnalyzer.js';
 import { ArticleOutput } from '../scraper/index.js';
 import { deduplicateScrapedArticles } from '../utils/deduplicationUtils.js';
 import CONFIG from '../config.js';
@@ -36,18 +37,33 @@ export async function analyzeContent(
     }
   }
   
+  // Don't pay for a score on a title and nothing else
+  const minContentLength = CONFIG.analysis.minContentLength;
+  const analyzable = uniqueArticles.filter(article => (article.content || '').trim().length >= minContentLength);
+  const skipped: AnalyzedArticle[] = uniqueArticles
+    .filter(article => (article.content || '').trim().length < minContentLength)
+    .map(article => ({
+      ...article,
+      relevanceScore: null,
+      analysisStatus: 'too-short' as const,
+      relevanceExplanation: `Analysis skipped: only ${(article.content || '').trim().length} characters of content available (source: ${article.contentSource || 'none'}, minimum ${minContentLength})`
+    }));
+  if (skipped.length > 0) {
+    console.log(`Skipping analysis of ${skipped.length} articles with less than ${minContentLength} characters of content`);
+  }
+  
   // Get batch size from config
   const batchSize = CONFIG.performance.batchSize || 5;
   console.log(`Using batch size of ${batchSize} for Claude analysis`);
   
   // Analyze articles in batches based on criteria
   const analyzedArticles = await analyzeArticlesBatch(
-    uniqueArticles,
+    analyzable,
     criteria,
     batchSize
   );
   
-  return analyzedArticles;
+  return [...analyzedArticles, ...skipped];
 }
 
-export { AnalyzedArticle, getCostInformation };
\ No newline at end of file
+export { AnalysisStatus, AnalyzedArticle, BudgetStatus, compareByRelevance, formatBudgetStatus, getBudgetStatus, getCostInformation, startUsageRun };
\ No newline at end of file
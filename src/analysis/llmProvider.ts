@@ -0,0 +1,53 @@
+// src/analysis/llmProvider.ts
+
+// Backends the analysis can be sent to
+export type LlmProviderName = 'anthropic' | 'openai-compatible' | 'fake';
+
+// A tool the model must call to return its answer as JSON
+export interface LlmTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>; // JSON schema of the tool's input
+}
+
+// A call the model made to the tool
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  input: unknown;
+}
+
+// One turn of a conversation, in a form every provider can translate
+export type LlmMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCall?: LlmToolCall }
+  | { role: 'tool'; toolCallId: string; content: string; isError: boolean };
+
+export interface LlmRequest {
+  model: string;
+  maxTokens: number;
+  system: string; // Instructions that are the same for every request, cached where the provider can
+  tool: LlmTool; // The model is told to answer by calling this tool
+  messages: LlmMessage[];
+}
+
+// Tokens a request used. Cached tokens are not included in inputTokens.
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number; // Prompt tokens served from the provider's cache
+  cacheWriteTokens: number; // Prompt tokens written to the cache
+}
+
+export interface LlmResponse {
+  text: string; // Any text the model wrote besides the tool call
+  toolCall?: LlmToolCall;
+  stopReason: string;
+  usage: LlmUsage;
+}
+
+// A backend that can answer an LlmRequest
+export interface LlmProvider {
+  name: LlmProviderName;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
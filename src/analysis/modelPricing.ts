@@ -0,0 +1,81 @@
+// src/analysis/modelPricing.ts
+import CONFIG from '../config.js';
+import type { LlmProviderName, LlmUsage } from './llmProvider.js';
+
+// Dollars per 1K tokens
+export interface ModelPricing {
+  inputCostPer1k: number;
+  outputCostPer1k: number;
+  cacheWriteCostPer1k: number;
+  cacheReadCostPer1k: number;
+}
+
+/**
+ * Anthropic prices: cache writes are 1.25x and cache reads 0.1x the input price
+ */
+function anthropicPricing(inputCostPerMillion: number, outputCostPerMillion: number): ModelPricing {
+  return {
+    inputCostPer1k: inputCostPerMillion / 1000,
+    outputCostPer1k: outputCostPerMillion / 1000,
+    cacheWriteCostPer1k: (inputCostPerMillion * 1.25) / 1000,
+    cacheReadCostPer1k: (inputCostPerMillion * 0.1) / 1000,
+  };
+}
+
+// Claude models by ID prefix; the longest matching prefix wins, so dated and
+// "-latest" IDs resolve to their family
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-3-haiku': anthropicPricing(0.25, 1.25),
+  'claude-3-5-haiku': anthropicPricing(0.8, 4),
+  'claude-haiku-4-5': anthropicPricing(1, 5),
+  'claude-3-sonnet': anthropicPricing(3, 15),
+  'claude-3-5-sonnet': anthropicPricing(3, 15),
+  'claude-3-7-sonnet': anthropicPricing(3, 15),
+  'claude-sonnet-4': anthropicPricing(3, 15),
+  'claude-3-opus': anthropicPricing(15, 75),
+  'claude-opus-4': anthropicPricing(15, 75),
+  'claude-opus-4-5': anthropicPricing(5, 25),
+};
+
+const FREE: ModelPricing = { inputCostPer1k: 0, outputCostPer1k: 0, cacheWriteCostPer1k: 0, cacheReadCostPer1k: 0 };
+
+// Used for models the table doesn't know
+const PROVIDER_DEFAULT_PRICING: Record<LlmProviderName, ModelPricing> = {
+  anthropic: MODEL_PRICING['claude-3-haiku'],
+  'openai-compatible': FREE, // Local servers cost nothing per token
+  fake: FREE,
+};
+
+const warnedModels = new Set<string>();
+
+/**
+ * Get the price of a model's tokens: the table entry for Claude models, the
+ * provider's default otherwise, with any prices set in the config on top
+ */
+export function getModelPricing(provider: LlmProviderName, model: string): ModelPricing {
+  const prefix = provider === 'anthropic'
+    ? Object.keys(MODEL_PRICING)
+      .filter(candidate => model.startsWith(candidate))
+      .sort((a, b) => b.length - a.length)[0]
+    : undefined;
+
+  if (provider === 'anthropic' && !prefix && !warnedModels.has(model)) {
+    warnedModels.add(model);
+    console.warn(`No pricing known for model ${model}; using Claude 3 Haiku prices. Set ANTHROPIC_INPUT_COST_PER_1K and ANTHROPIC_OUTPUT_COST_PER_1K to correct this.`);
+  }
+
+  const overrides = Object.fromEntries(
+    Object.entries(CONFIG.claude.pricing[provider]).filter(([, value]) => value !== undefined)
+  );
+  return { ...(prefix ? MODEL_PRICING[prefix] : PROVIDER_DEFAULT_PRICING[provider]), ...overrides };
+}
+
+/**
+ * Price a request's token usage
+ */
+export function priceUsage(pricing: ModelPricing, usage: LlmUsage): number {
+  return (usage.inputTokens / 1000) * pricing.inputCostPer1k
+    + (usage.outputTokens / 1000) * pricing.outputCostPer1k
+    + (usage.cacheReadTokens / 1000) * pricing.cacheReadCostPer1k
+    + (usage.cacheWriteTokens / 1000) * pricing.cacheWriteCostPer1k;
+}
@@ -0,0 +1,74 @@
+// src/analysis/providers/anthropicProvider.ts
+import Anthropic from '@anthropic-ai/sdk';
+import type { LlmMessage, LlmProvider } from '../llmProvider.js';
+
+/**
+ * Translate provider-neutral messages into the Messages API format. Tool
+ * results go back to Claude as tool_result blocks in a user turn; empty
+ * assistant turns are dropped because the API rejects them.
+ */
+function toAnthropicMessages(messages: LlmMessage[]): Anthropic.MessageParam[] {
+  return messages
+    .filter(message => message.role !== 'assistant' || message.content || message.toolCall)
+    .map((message): Anthropic.MessageParam => {
+      if (message.role === 'tool') {
+        return {
+          role: 'user',
+          content: [{ type: 'tool_result', tool_use_id: message.toolCallId, is_error: message.isError, content: message.content }],
+        };
+      }
+
+      if (message.role === 'assistant' && message.toolCall) {
+        // The API rejects empty text blocks
+        const content: Anthropic.ContentBlockParam[] = message.content ? [{ type: 'text', text: message.content }] : [];
+        content.push({ type: 'tool_use', id: message.toolCall.id, name: message.toolCall.name, input: message.toolCall.input });
+        return { role: 'assistant', content };
+      }
+
+      return { role: message.role, content: message.content };
+    });
+}
+
+/**
+ * Claude through the Anthropic Messages API, forcing a call to the request's tool
+ */
+export function createAnthropicProvider(apiKey: string): LlmProvider {
+  const client = new Anthropic({ apiKey });
+
+  return {
+    name: 'anthropic',
+    async complete(request) {
+      const response = await client.messages.create({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        // Marked for caching so repeat requests pay the cache-read price for
+        // the instructions and criteria (prompts below the model's minimum
+        // cacheable length are simply not cached)
+        system: [{ type: 'text', text: request.system, cache_control: { type: 'ephemeral' } }],
+        tools: [{
+          name: request.tool.name,
+          description: request.tool.description,
+          input_schema: { type: 'object', ...request.tool.inputSchema },
+        }],
+        tool_choice: { type: 'tool', name: request.tool.name },
+        messages: toAnthropicMessages(request.messages),
+      });
+
+      const toolUse = response.content.find((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use');
+      return {
+        text: response.content
+          .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+          .map(block => block.text)
+          .join('\n'),
+        toolCall: toolUse ? { id: toolUse.id, name: toolUse.name, input: toolUse.input } : undefined,
+        stopReason: response.stop_reason || 'unknown',
+        usage: {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens,
+          cacheReadTokens: response.usage.cache_read_input_tokens ?? 0,
+          cacheWriteTokens: response.usage.cache_creation_input_tokens ?? 0,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,55 @@
+// src/analysis/providers/fakeProvider.ts
+import { createHash } from 'node:crypto';
+import type { LlmProvider, LlmRequest, LlmResponse } from '../llmProvider.js';
+
+/**
+ * Score each ARTICLE_ID in the request from a hash of its text, so the same
+ * article always gets the same score
+ */
+function scoreArticles(request: LlmRequest): unknown {
+  const firstMessage = request.messages.find(message => message.role === 'user');
+  const text = firstMessage?.content || '';
+  const sections = text.split(/(?=ARTICLE_ID: )/).filter(section => section.startsWith('ARTICLE_ID: '));
+
+  return {
+    results: sections.map(section => {
+      const articleId = section.match(/^ARTICLE_ID: (\S+)/)![1];
+      const hash = createHash('sha256').update(section).digest();
+      return {
+        articleId,
+        relevanceScore: hash.readUInt32BE(0) % 101,
+        explanation: `Deterministic score from the fake provider for ${articleId}.`,
+      };
+    }),
+  };
+}
+
+/**
+ * A provider that makes no network calls and costs nothing, for tests and
+ * offline runs. By default it scores articles for the relevance tool; pass
+ * respond to script other answers (including malformed ones).
+ */
+export function createFakeProvider(respond: (request: LlmRequest) => unknown = scoreArticles): LlmProvider {
+  let callCount = 0;
+
+  return {
+    name: 'fake',
+    async complete(request): Promise<LlmResponse> {
+      callCount++;
+      const input = respond(request);
+      const promptLength = request.messages.reduce((sum, message) => sum + message.content.length, request.system.length);
+
+      return {
+        text: '',
+        toolCall: { id: `fake_${callCount}`, name: request.tool.name, input },
+        stopReason: 'tool_use',
+        usage: {
+          inputTokens: Math.ceil(promptLength / 4),
+          outputTokens: Math.ceil(JSON.stringify(input).length / 4),
+          cacheReadTokens: 0,
+          cacheWriteTokens: 0,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,26 @@
+// src/analysis/providers/index.ts
+import CONFIG from '../../config.js';
+import { LlmProvider } from '../llmProvider.js';
+import { createAnthropicProvider } from './anthropicProvider.js';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider.js';
+import { createFakeProvider } from './fakeProvider.js';
+
+/**
+ * Create the provider selected by CONFIG.claude.provider
+ */
+export function createConfiguredProvider(): LlmProvider {
+  switch (CONFIG.claude.provider) {
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider({
+        baseUrl: CONFIG.claude.baseUrl,
+        apiKey: CONFIG.claude.providerApiKey,
+        timeout: CONFIG.claude.requestTimeout,
+      });
+    case 'fake':
+      return createFakeProvider();
+    default:
+      return createAnthropicProvider(CONFIG.claude.apiKey);
+  }
+}
+
+export { createAnthropicProvider, createOpenAiCompatibleProvider, createFakeProvider };
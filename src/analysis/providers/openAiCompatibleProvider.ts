@@ -0,0 +1,122 @@
+// src/analysis/providers/openAiCompatibleProvider.ts
+import { fetch } from 'undici';
+import type { LlmMessage, LlmProvider, LlmToolCall } from '../llmProvider.js';
+
+export interface OpenAiCompatibleOptions {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string; // Local servers usually don't need one
+  timeout: number;
+}
+
+// The parts of a chat completion response that are read
+interface ChatCompletion {
+  choices?: {
+    finish_reason?: string;
+    message?: {
+      content?: string | null;
+      tool_calls?: { id?: string; function?: { name?: string; arguments?: string } }[];
+    };
+  }[];
+  usage?: {
+    prompt_tokens?: number; // Includes any cached tokens
+    completion_tokens?: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  };
+}
+
+/**
+ * Translate provider-neutral messages into chat completion messages
+ */
+function toChatMessages(messages: LlmMessage[]): Record<string, unknown>[] {
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+
+    if (message.role === 'assistant' && message.toolCall) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: [{
+          id: message.toolCall.id,
+          type: 'function',
+          function: { name: message.toolCall.name, arguments: JSON.stringify(message.toolCall.input) },
+        }],
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * Read the tool call from a completion. Arguments that aren't valid JSON are
+ * passed on as the raw string, so validation fails and a repair is requested.
+ */
+function readToolCall(completion: ChatCompletion): LlmToolCall | undefined {
+  const call = completion.choices?.[0]?.message?.tool_calls?.[0];
+  if (!call?.function?.name) {
+    return undefined;
+  }
+
+  const args = call.function.arguments || '';
+  let input: unknown = args;
+  try {
+    input = JSON.parse(args);
+  } catch (e) {
+    // Left as the raw string
+  }
+  return { id: call.id || `call_${Date.now()}`, name: call.function.name, input };
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API with function calling:
+ * Ollama, llama.cpp's server, vLLM, LM Studio or a hosted endpoint
+ */
+export function createOpenAiCompatibleProvider(options: OpenAiCompatibleOptions): LlmProvider {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai-compatible',
+    async complete(request) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          // Servers that cache do it automatically for a repeated prefix
+          messages: [{ role: 'system', content: request.system }, ...toChatMessages(request.messages)],
+          tools: [{
+            type: 'function',
+            function: { name: request.tool.name, description: request.tool.description, parameters: request.tool.inputSchema },
+          }],
+          tool_choice: { type: 'function', function: { name: request.tool.name } },
+        }),
+        signal: AbortSignal.timeout(options.timeout),
+      });
+
+      if (!response.ok) {
+        throw new Error(`${endpoint} returned HTTP ${response.status}: ${(await response.text()).substring(0, 200)}`);
+      }
+
+      const completion = await response.json() as ChatCompletion;
+      const choice = completion.choices?.[0];
+      const cachedTokens = completion.usage?.prompt_tokens_details?.cached_tokens ?? 0;
+      return {
+        text: choice?.message?.content || '',
+        toolCall: readToolCall(completion),
+        stopReason: choice?.finish_reason || 'unknown',
+        usage: {
+          inputTokens: (completion.usage?.prompt_tokens ?? 0) - cachedTokens,
+          outputTokens: completion.usage?.completion_tokens ?? 0,
+          cacheReadTokens: cachedTokens,
+          cacheWriteTokens: 0,
+        },
+      };
+    },
+  };
+}
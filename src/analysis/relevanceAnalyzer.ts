@@ -1,133 +1,248 @@
-import { analyzeText } from './claudeClient.js';
+import { z } from 'zod';
+import { StructuredOutput, analyzeText, calculateCost, estimateTokens } from './claudeClient.js';
 import { ArticleOutput } from '../scraper/index.js';
 import CONFIG from '../config.js';
 
+// Whether an article got a score, and if not why. 'too-short' articles were
+// not sent at all, and aren't retried until their content or criteria change.
+export type AnalysisStatus = 'analyzed' | 'failed' | 'skipped' | 'too-short';
+
 export interface AnalyzedArticle extends ArticleOutput {
-  relevanceScore: number;
-  relevanceExplanation: string;
+  relevanceScore: number | null; // null when the article was not scored
+  relevanceExplanation: string; // The reason, when it was not scored
+  analysisStatus: AnalysisStatus;
+}
+
+// Name of the tool Claude calls to hand back its scores
+const RECORD_RELEVANCE_TOOL = 'record_relevance';
+
+// JSON schema of the tool's input, as shown to Claude
+const RECORD_RELEVANCE_INPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    results: {
+      type: 'array',
+      description: 'One entry for every article, in any order',
+      items: {
+        type: 'object',
+        properties: {
+          articleId: { type: 'string', description: 'The ARTICLE_ID the result is for' },
+          relevanceScore: { type: 'integer', minimum: 0, maximum: 100, description: '100 is extremely relevant, 0 not relevant at all' },
+          explanation: { type: 'string', description: 'Why this score was assigned, in 2-3 sentences' },
+        },
+        required: ['articleId', 'relevanceScore', 'explanation'],
+      },
+    },
+  },
+  required: ['results'],
+};
+
+/**
+ * Build the structured output for a batch. Validation also checks that every
+ * article in the batch got exactly one result, so a partial answer is repaired
+ * rather than silently scored 0.
+ */
+export function createBatchAnalysisOutput(expectedArticleIds: string[]) {
+  const schema = z.object({
+    results: z.array(z.object({
+      articleId: z.union([z.string(), z.number()]).transform(id => String(id).trim()),
+      relevanceScore: z.number().min(0).max(100).transform(score => Math.round(score)),
+      explanation: z.string().trim().min(1),
+    })),
+  }).superRefine((value, ctx) => {
+    const ids = value.results.map(result => result.articleId);
+    const missing = expectedArticleIds.filter(id => !ids.includes(id));
+    const unexpected = ids.filter(id => !expectedArticleIds.includes(id));
+    const repeated = ids.filter((id, index) => ids.indexOf(id) !== index);
+    
+    if (missing.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['results'], message: `Missing results for article IDs ${missing.join(', ')}` });
+    }
+    if (unexpected.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['results'], message: `Unknown article IDs ${unexpected.join(', ')}` });
+    }
+    if (repeated.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['results'], message: `More than one result for article IDs ${[...new Set(repeated)].join(', ')}` });
+    }
+  });
+  
+  const output: StructuredOutput<z.infer<typeof schema>> = {
+    toolName: RECORD_RELEVANCE_TOOL,
+    description: 'Record the relevance score and explanation for each article analyzed',
+    inputSchema: RECORD_RELEVANCE_INPUT_SCHEMA,
+    schema,
+  };
+  return output;
 }
 
 /**
- * Creates a prompt for analyzing multiple articles' relevance based on criteria
+ * Creates the system prompt for analyzing articles' relevance based on criteria.
+ * It doesn't depend on the batch, so every request with the same criteria
+ * can be served from the prompt cache; the articles go in the user turn.
  */
-export function createBatchAnalysisPrompt(criteria: string, articlesCount: number): string {
+export function createBatchAnalysisPrompt(criteria: string): string {
   return `
-You are an expert content analyzer. Your task is to analyze ${articlesCount} articles and determine their relevance based on the following criteria:
+You are an expert content analyzer. Your task is to analyze the articles in the user's message and determine their relevance based on the following criteria:
 
 ${criteria}
 
+Today's date is ${new Date().toISOString().split('T')[0]}. Each article includes a PUBLISHED date taken from its feed (or "Unknown"); use it when the criteria refer to publication dates. Articles marked DOCUMENT TYPE: PDF are documents (reports, filings, notices) rather than web pages; their text was extracted from the file and may include headers, footers and page breaks. Articles with CONTENT SOURCE: feed title and snippet only could not be read in full; score them on what the snippet shows and say so in the explanation.
+
 I will provide each article with a unique ID. For each article, you must provide:
 1. A relevance score between 0 and 100, where 100 is extremely relevant and 0 is not relevant at all.
 2. A brief explanation (2-3 sentences) of why you assigned this score.
 
 Evaluate EACH article independently based on the criteria.
 
-Format your response EXACTLY like this for EACH article:
-ARTICLE_ID: [id]
-RELEVANCE_SCORE: [score]
-EXPLANATION: [your brief explanation]
-
-Make sure to include ALL article IDs in your response, maintaining the exact format shown above for each article.
+Record your results by calling the ${RECORD_RELEVANCE_TOOL} tool once, with one entry per article. Use the exact ARTICLE_ID values given, and include ALL of them.
 
-It's critical that you follow this exact format with these exact labels and correct article IDs.
 Remember to only focus on the criteria provided. Be objective and consistent in your evaluation.
 `.trim();
 }
 
 /**
- * Parses the batch analysis result from Claude with enhanced error handling
+ * Sort order for analyzed articles: highest score first, unscored articles last
  */
-export function parseBatchAnalysisResult(result: string | null, expectedArticleIds: string[]): Map<string, { score: number, explanation: string }> {
-  const articleResults = new Map<string, { score: number, explanation: string }>();
-  
-  if (!result) {
-    console.error("Failed to get a response from Claude");
-    return articleResults;
-  }
+export function compareByRelevance(a: AnalyzedArticle, b: AnalyzedArticle): number {
+  return (b.relevanceScore ?? -1) - (a.relevanceScore ?? -1);
+}
+
+// Longest excerpt of an article's content sent for analysis
+const MAX_CONTENT_LENGTH = 7500;
+
+// Response tokens to allow per article (score plus a 2-3 sentence explanation)
+// and for the tool call around them
+const RESPONSE_TOKENS_PER_ARTICLE = 150;
+const RESPONSE_TOKENS_BASE = 200;
+
+// An article with the ID it is known by for the whole analysis call
+interface BatchItem {
+  id: string;
+  article: ArticleOutput;
+  text: string; // The article as it appears in the request
+  tokens: number; // Estimated input tokens for the text
+}
+
+// What one planned batch ended up costing, for the per-batch log line
+interface BatchOutcome {
+  results: AnalyzedArticle[];
+  requests: number; // Requests sent, including repairs and those for bisected halves
+}
 
-  console.log("Parsing Claude response...");
+/**
+ * Format one article for the request, under its call-wide ID
+ */
+function formatArticleForBatch(articleId: string, article: ArticleOutput): string {
+  const articleContent = article.content || '';
   
-  // Try multiple parsing approaches to handle different response formats
+  // Create a text excerpt if the content is too long
+  const truncatedContent = articleContent.length > MAX_CONTENT_LENGTH 
+    ? articleContent.substring(0, MAX_CONTENT_LENGTH) + '...[truncated]'
+    : articleContent;
   
-  // First approach: Try the regex split method
-  const articleSections = result.split(/ARTICLE_ID:\s*(\d+)/);
+  // Add article with ID, title, source, and content
+  let text = `\n\nARTICLE_ID: ${articleId}\n`;
+  text += `TITLE: ${article.title || 'No title available'}\n`;
+  text += `URL: ${article.link || 'No URL available'}\n`;
+  text += `SOURCE: ${article.alertName || 'Unknown source'}\n`;
+  text += `PUBLISHED: ${article.pubDate || 'Unknown'}\n`;
+  if (article.snippet && article.contentSource !== 'feed-snippet') {
+    text += `FEED SNIPPET: ${article.snippet}\n`;
+  }
+  if (article.contentSource === 'feed-snippet') {
+    text += `CONTENT SOURCE: feed title and snippet only (the page could not be scraped)\n`;
+  } else if (article.contentSource === 'amp') {
+    text += `CONTENT SOURCE: AMP/print version of the page\n`;
+  }
+  if (article.documentType === 'pdf') {
+    text += `DOCUMENT TYPE: PDF${article.pageCount ? ` (${article.pageCount} pages, page breaks marked "--- Page N ---")` : ''}\n`;
+  }
+  text += `CONTENT:\n${truncatedContent || 'No content available'}\n`;
+  return text;
+}
+
+/**
+ * Pack articles, in order, into batches of at most maxArticles whose estimated
+ * input stays within the token budget. An article that is over the budget on
+ * its own gets a batch to itself.
+ */
+export function packBatches<T extends { tokens: number }>(items: T[], maxArticles: number, tokenBudget: number): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let currentTokens = 0;
   
-  // Start from index 1 since splitting with capture groups will put the first match at index 1
-  for (let i = 1; i < articleSections.length; i += 2) {
-    if (i + 1 >= articleSections.length) break;
-    
-    const articleId = articleSections[i].trim();
-    const articleContent = articleSections[i + 1].trim();
-    
-    // Extract score with pattern matching
-    const scoreMatch = articleContent.match(/RELEVANCE_SCORE:\s*(\d+)/);
-    const score = scoreMatch ? parseInt(scoreMatch[1], 10) : 0;
-    
-    // Extract explanation with pattern matching
-    const explanationMatch = articleContent.match(/EXPLANATION:\s*([\s\S]+?)(?=ARTICLE_ID:|$)/);
-    const explanation = explanationMatch 
-      ? explanationMatch[1].trim() 
-      : 'No explanation provided';
-    
-    articleResults.set(articleId, { 
-      score: Math.min(Math.max(score, 0), 100), // Ensure score is between 0-100
-      explanation 
-    });
-    
-    // Log processing for debugging
-    if (!scoreMatch) {
-      console.warn(`Failed to extract score for article ID ${articleId}`);
+  for (const item of items) {
+    if (current.length > 0 && (current.length >= maxArticles || currentTokens + item.tokens > tokenBudget)) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
     }
+    current.push(item);
+    currentTokens += item.tokens;
+  }
+  
+  if (current.length > 0) {
+    batches.push(current);
   }
+  return batches;
+}
 
-  // If we didn't get any results with the first approach, try a simpler approach
-  if (articleResults.size === 0) {
-    console.log("First parsing approach failed, trying alternative...");
-    
-    // Backup approach: Try to find each article ID directly
-    for (const articleId of expectedArticleIds) {
-      const idPattern = new RegExp(`ARTICLE_ID:\\s*${articleId}[\\s\\S]*?(?=ARTICLE_ID:|$)`, 'i');
-      const match = result.match(idPattern);
-      
-      if (match && match[0]) {
-        const section = match[0];
-        
-        // Extract score
-        const scoreMatch = section.match(/RELEVANCE_SCORE:\s*(\d+)/);
-        const score = scoreMatch ? parseInt(scoreMatch[1], 10) : 0;
-        
-        // Extract explanation
-        const explanationMatch = section.match(/EXPLANATION:\s*([\s\S]+?)(?=ARTICLE_ID:|$)/);
-        const explanation = explanationMatch 
-          ? explanationMatch[1].trim() 
-          : 'No explanation provided';
-        
-        articleResults.set(articleId, { 
-          score: Math.min(Math.max(score, 0), 100),
-          explanation 
-        });
-      }
-    }
+/**
+ * Analyze one batch. If the response is missing or its IDs don't match the
+ * batch even after the repair request, split the batch in half and try each
+ * half, down to single articles; only those are ever left unscored. A request
+ * that fails outright (network, rate limit, server error) is not split, as
+ * smaller requests would only fail the same way.
+ */
+async function analyzeBatchItems(items: BatchItem[], criteria: string): Promise<BatchOutcome> {
+  const ids = items.map(item => item.id);
+  const prompt = createBatchAnalysisPrompt(criteria);
+  const maxResponseTokens = Math.min(
+    CONFIG.claude.maxTokensPerRequest,
+    RESPONSE_TOKENS_BASE + RESPONSE_TOKENS_PER_ARTICLE * items.length
+  );
+  const result = await analyzeText(items.map(item => item.text).join('').trim(), prompt, createBatchAnalysisOutput(ids), maxResponseTokens);
+  
+  if (result.status === 'ok') {
+    // Validation guarantees exactly one result per ID
+    const articleResults = new Map(result.data.results.map(articleResult => [articleResult.articleId, articleResult]));
+    return {
+      results: items.map(item => ({
+        ...item.article,
+        relevanceScore: articleResults.get(item.id)!.relevanceScore,
+        relevanceExplanation: articleResults.get(item.id)!.explanation,
+        analysisStatus: 'analyzed'
+      })),
+      requests: result.requests,
+    };
   }
   
-  // Check if we're missing any expected article IDs
-  for (const id of expectedArticleIds) {
-    if (!articleResults.has(id)) {
-      console.warn(`Result for article ID ${id} not found in Claude's response`);
-      // Add a default entry with a score of 0
-      articleResults.set(id, {
-        score: 0,
-        explanation: "Could not extract result from Claude's response"
-      });
-    }
+  if (result.status === 'invalid' && items.length > 1) {
+    const middle = Math.ceil(items.length / 2);
+    console.warn(`Batch of ${ids.join(', ')} failed (${result.error}); splitting into ${middle} + ${items.length - middle} articles`);
+    const first = await analyzeBatchItems(items.slice(0, middle), criteria);
+    const second = await analyzeBatchItems(items.slice(middle), criteria);
+    return { results: [...first.results, ...second.results], requests: result.requests + first.requests + second.requests };
   }
   
-  console.log(`Successfully parsed ${articleResults.size} article results`);
-  return articleResults;
+  console.error(`Article${ids.length > 1 ? 's' : ''} ${ids.join(', ')} not analyzed: ${result.error}`);
+  
+  // Leave the articles unscored so they are retried on the next run
+  return {
+    results: items.map(item => ({
+      ...item.article,
+      relevanceScore: null,
+      relevanceExplanation: result.error,
+      analysisStatus: result.status === 'skipped' ? 'skipped' : 'failed'
+    })),
+    requests: result.requests,
+  };
 }
 
 /**
- * Process articles in batches to reduce Claude API calls
+ * Analyze articles several to a request, so the criteria prompt is paid for
+ * once per batch rather than once per article. Batches hold up to batchSize
+ * articles within CONFIG.analysis.batchTokenBudget estimated input tokens.
  */
 export async function analyzeArticlesBatch(
   articles: ArticleOutput[], 
@@ -136,131 +251,69 @@ export async function analyzeArticlesBatch(
 ): Promise<AnalyzedArticle[]> {
   console.log(`Starting batch analysis of ${articles.length} articles...`);
   
-  // Limit batch size to 1 article to reduce errors
-  const maxSafeBatchSize = 1; // Process one article at a time for maximum reliability
-  const actualBatchSize = Math.min(batchSize, maxSafeBatchSize);
+  // IDs are unique across this call (criteria groups are numbered separately)
+  // so a result can never land on an article from another batch
+  const items: BatchItem[] = articles.map((article, index) => {
+    const id = `A${index + 1}`;
+    const text = formatArticleForBatch(id, article);
+    return { id, article, text, tokens: estimateTokens(text) };
+  });
   
-  if (batchSize > maxSafeBatchSize) {
-    console.warn(`Reducing batch size from ${batchSize} to ${maxSafeBatchSize} for increased reliability`);
-  }
+  const tokenBudget = CONFIG.analysis.batchTokenBudget;
+  const batches = packBatches(items, batchSize, tokenBudget);
+  console.log(`Created ${batches.length} batches of up to ${batchSize} articles and ~${tokenBudget} input tokens`);
   
-  const results: AnalyzedArticle[] = [];
-  const batches: ArticleOutput[][] = [];
-  
-  // Split articles into batches
-  for (let i = 0; i < articles.length; i += actualBatchSize) {
-    batches.push(articles.slice(i, i + actualBatchSize));
-  }
-  
-  console.log(`Created ${batches.length} batches with max ${actualBatchSize} articles per batch`);
+  // The instructions and criteria are sent with every request; after the
+  // first they are read from the prompt cache, so that is what a request
+  // saved or added costs
+  const promptTokens = estimateTokens(createBatchAnalysisPrompt(criteria));
   
+  const results: AnalyzedArticle[] = [];
+  let requestCount = 0;
   let successCount = 0;
   let errorCount = 0;
   
-  // Process each batch
   for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
     const batch = batches[batchIndex];
-    console.log(`Processing batch ${batchIndex + 1}/${batches.length} with ${batch.length} articles`);
-    
-    // Build the batch content
-    let batchContent = '';
-    
-    // Keep track of expected article IDs
-    const expectedArticleIds: string[] = [];
-    
-    batch.forEach((article, index) => {
-      // Use the index within the batch as a unique ID
-      const articleId = `${index + 1}`;
-      expectedArticleIds.push(articleId);
-      
-      const articleContent = article.content || '';
-      
-      // Create a text excerpt if the content is too long
-      // Use 7500 character limit per article as requested
-      const maxContentLength = 7500;
-      const truncatedContent = articleContent.length > maxContentLength 
-        ? articleContent.substring(0, maxContentLength) + '...[truncated]'
-        : articleContent;
-      
-      // Add article to batch with ID, title, source, and content
-      batchContent += `\n\nARTICLE_ID: ${articleId}\n`;
-      batchContent += `TITLE: ${article.title || 'No title available'}\n`;
-      batchContent += `URL: ${article.link || 'No URL available'}\n`;
-      batchContent += `SOURCE: ${article.alertName || 'Unknown source'}\n`;
-      batchContent += `CONTENT:\n${truncatedContent || 'No content available'}\n`;
-    });
+    const batchTokens = batch.reduce((sum, item) => sum + item.tokens, 0) + promptTokens;
+    console.log(`Processing batch ${batchIndex + 1}/${batches.length}: ${batch.map(item => item.id).join(', ')} (~${batchTokens} input tokens)`);
     
-    // Generate the prompt
-    const prompt = createBatchAnalysisPrompt(criteria, batch.length);
+    const outcome = await analyzeBatchItems(batch, criteria);
+    const analyzed = outcome.results.filter(article => article.analysisStatus === 'analyzed').length;
+    results.push(...outcome.results);
+    requestCount += outcome.requests;
+    successCount += analyzed;
+    errorCount += batch.length - analyzed;
     
-    try {
-      // Send to Claude for analysis
-      // Conservative token limit because we're keeping more content
-      const maxResponseTokens = Math.min(CONFIG.claude.maxTokensPerRequest, 2000);
-      const result = await analyzeText(batchContent, prompt, maxResponseTokens);
-      
-      // Parse the batch result with expected article IDs
-      const articleResults = parseBatchAnalysisResult(result, expectedArticleIds);
-      
-      // Map results back to original articles
-      batch.forEach((article, index) => {
-        const articleId = `${index + 1}`;
-        const resultData = articleResults.get(articleId);
-        
-        if (resultData && resultData.score > 0) {
-          results.push({
-            ...article,
-            relevanceScore: resultData.score,
-            relevanceExplanation: resultData.explanation
-          });
-          successCount++;
-        } else {
-          console.error(`Missing or zero-scored result for article ID ${articleId} in batch ${batchIndex + 1}`);
-          results.push({
-            ...article,
-            relevanceScore: 0,
-            relevanceExplanation: resultData ? 
-              resultData.explanation : 
-              `Error: Failed to get analysis result for this article in batch.`
-          });
-          errorCount++;
-        }
-      });
-      
-    } catch (error) {
-      console.error(`Error during batch analysis (batch ${batchIndex + 1}):`, error);
-      
-      // Add all articles in the failed batch with zero scores
-      batch.forEach(article => {
-        results.push({
-          ...article,
-          relevanceScore: 0,
-          relevanceExplanation: `Error during batch analysis: ${error}`
-        });
-      });
-      errorCount += batch.length;
-    }
-    
-    console.log(`Batch ${batchIndex + 1} complete. Current stats: ${successCount} successful, ${errorCount} errors`);
+    // Compared with sending each article on its own
+    const savedTokens = (batch.length - outcome.requests) * promptTokens;
+    console.log(
+      `Batch ${batchIndex + 1} complete: ${analyzed}/${batch.length} analyzed in ${outcome.requests} request${outcome.requests === 1 ? '' : 's'}, ` +
+      (savedTokens >= 0
+        ? `saved ~${savedTokens} prompt tokens (~$${calculateCost(0, 0, savedTokens).toFixed(4)})`
+        : `splitting cost ~${-savedTokens} extra prompt tokens (~$${calculateCost(0, 0, -savedTokens).toFixed(4)})`)
+    );
   }
   
   // Sort by relevance score (descending)
-  const sortedResults = [...results].sort((a, b) => b.relevanceScore - a.relevanceScore);
+  const sortedResults = [...results].sort(compareByRelevance);
   
-  console.log(`Analysis complete: ${successCount} successful, ${errorCount} errors`);
-  console.log(`Articles with scores > 0: ${sortedResults.filter(a => a.relevanceScore > 0).length}`);
+  const totalSavedTokens = (articles.length - requestCount) * promptTokens;
+  console.log(`Analysis complete: ${successCount} successful, ${errorCount} errors, ${requestCount} requests for ${articles.length} articles`);
+  if (totalSavedTokens > 0) {
+    console.log(`Batching saved ~${totalSavedTokens} prompt tokens (~$${calculateCost(0, 0, totalSavedTokens).toFixed(4)})`);
+  }
+  console.log(`Articles with scores > 0: ${sortedResults.filter(a => (a.relevanceScore ?? 0) > 0).length}`);
   
   return sortedResults;
 }
 
-// Update the original analyzeArticles function to use the new batch method
+/**
+ * Analyze articles with the configured batch size
+ */
 export async function analyzeArticles(
   articles: ArticleOutput[], 
   criteria: string
 ): Promise<AnalyzedArticle[]> {
-  // Use a fixed batch size of 1 to handle one article at a time
-  const safeBatchSize = 1;
-  
-  // Use batch processing with safer settings
-  return analyzeArticlesBatch(articles, criteria, safeBatchSize);
-}
\ No newline at end of file
+  return analyzeArticlesBatch(articles, criteria);
+}
@@ -0,0 +1,287 @@
+// src/analysis/usageLedger.ts
+import { randomBytes } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import CONFIG from '../config.js';
+import type { LlmProviderName, LlmUsage } from './llmProvider.js';
+
+// One request's usage, as appended to the ledger
+export interface UsageEntry extends LlmUsage {
+  timestamp: string;
+  runId: string;
+  provider: LlmProviderName | 'unknown';
+  model: string;
+  cost: number;
+}
+
+// Usage added up over a set of entries
+export interface UsageTotals extends LlmUsage {
+  cost: number;
+  requestCount: number;
+}
+
+// Spending against the monthly budget
+export interface BudgetStatus {
+  monthlyLimit: number;
+  monthSpent: number;
+  runSpent: number;
+  percentUsed: number;
+  warningLevel?: number; // Highest warning threshold reached (50, 80 or 100)
+  byModel: Record<string, UsageTotals>; // This month
+}
+
+/**
+ * Error raised when a request would take spending past the monthly budget
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Percentages of the monthly budget that log a warning the first time a run reaches them
+const WARNING_THRESHOLDS = [50, 80, 100];
+
+// One JSON entry per line, only ever appended to
+const ledgerPath = path.join(CONFIG.outputDir, 'llm_usage_ledger.jsonl');
+
+// Month totals kept before the ledger existed
+const legacyTrackingPath = path.join(CONFIG.outputDir, 'claude_cost_tracking.json');
+
+let entries: UsageEntry[] = [];
+let runId = createRunId();
+let reservedCost = 0; // Estimated cost of requests that are queued or in flight
+let overrun: string | undefined; // Set once a request this run cost more than its reservation
+let warnedLevel = 0;
+let loading: Promise<void> | undefined;
+
+/**
+ * Create an ID for a run: its start time plus a random suffix
+ */
+function createRunId(): string {
+  return `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomBytes(3).toString('hex')}`;
+}
+
+/**
+ * Start a new run, so its usage is reported separately from earlier ones
+ */
+export function startUsageRun(): string {
+  runId = createRunId();
+  warnedLevel = 0;
+  overrun = undefined;
+  return runId;
+}
+
+/**
+ * Check whether a timestamp falls in the current calendar month
+ */
+function isCurrentMonth(timestamp: string): boolean {
+  const date = new Date(timestamp);
+  const now = new Date();
+  return date.getFullYear() === now.getFullYear() && date.getMonth() === now.getMonth();
+}
+
+/**
+ * Carry this month's totals over from the old cost tracking file, so
+ * switching to the ledger doesn't reset the budget
+ */
+async function migrateLegacyTracking(): Promise<void> {
+  try {
+    const legacy = JSON.parse(await fs.readFile(legacyTrackingPath, 'utf-8'));
+    if (!legacy.totalCost || !isCurrentMonth(legacy.lastUpdated)) {
+      return;
+    }
+
+    await appendEntry({
+      timestamp: legacy.lastUpdated,
+      runId: 'migrated',
+      provider: 'unknown',
+      model: 'unknown',
+      inputTokens: legacy.inputTokens || 0,
+      outputTokens: legacy.outputTokens || 0,
+      cacheReadTokens: legacy.cacheReadTokens || 0,
+      cacheWriteTokens: legacy.cacheWriteTokens || 0,
+      cost: legacy.totalCost,
+    });
+    console.log(`Carried $${legacy.totalCost.toFixed(4)} of spending this month over from ${path.basename(legacyTrackingPath)}`);
+  } catch (error) {
+    // No old tracking file
+  }
+}
+
+/**
+ * Load the usage ledger from disk (once per process)
+ */
+export function loadUsageLedger(): Promise<void> {
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const data = await fs.readFile(ledgerPath, 'utf-8');
+        entries = data
+          .split('\n')
+          .filter(line => line.trim())
+          .flatMap(line => {
+            try {
+              return [JSON.parse(line) as UsageEntry];
+            } catch (error) {
+              console.warn(`Ignoring unreadable line in ${path.basename(ledgerPath)}`);
+              return [];
+            }
+          });
+      } catch (error) {
+        console.log('No existing usage ledger found, creating new one');
+        entries = [];
+        await migrateLegacyTracking();
+      }
+    })();
+  }
+  return loading;
+}
+
+/**
+ * Append an entry to the ledger, in memory and on disk
+ */
+async function appendEntry(entry: UsageEntry): Promise<void> {
+  entries.push(entry);
+  try {
+    await fs.mkdir(path.dirname(ledgerPath), { recursive: true });
+    await fs.appendFile(ledgerPath, JSON.stringify(entry) + '\n', 'utf-8');
+  } catch (error) {
+    console.error('Error writing usage ledger:', error);
+  }
+}
+
+/**
+ * Add up the usage of a set of entries
+ */
+export function sumUsage(usageEntries: UsageEntry[]): UsageTotals {
+  return usageEntries.reduce<UsageTotals>((totals, entry) => ({
+    cost: totals.cost + entry.cost,
+    inputTokens: totals.inputTokens + entry.inputTokens,
+    outputTokens: totals.outputTokens + entry.outputTokens,
+    cacheReadTokens: totals.cacheReadTokens + entry.cacheReadTokens,
+    cacheWriteTokens: totals.cacheWriteTokens + entry.cacheWriteTokens,
+    requestCount: totals.requestCount + 1,
+  }), { cost: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, requestCount: 0 });
+}
+
+/**
+ * Get this month's ledger entries
+ */
+function getMonthEntries(): UsageEntry[] {
+  return entries.filter(entry => isCurrentMonth(entry.timestamp));
+}
+
+/**
+ * Set aside a request's estimated cost before it is queued, so requests
+ * waiting in the queue together can't overshoot the budget. Throws, reserving
+ * nothing, when the request would take spending past the limit.
+ */
+export function reserveBudget(estimatedCost: number): void {
+  assertBudgetOpen();
+  const spent = sumUsage(getMonthEntries()).cost;
+  if (spent + reservedCost + estimatedCost > CONFIG.claude.monthlyCostLimit) {
+    throw new BudgetExceededError(
+      `request (up to $${estimatedCost.toFixed(4)}) would exceed the monthly budget: ${formatBudgetStatus(computeBudgetStatus())}` +
+      (reservedCost > 0 ? `, $${reservedCost.toFixed(4)} reserved by queued requests` : '')
+    );
+  }
+
+  reservedCost += estimatedCost;
+}
+
+/**
+ * Throw if a request this run cost more than was reserved for it: the
+ * reservations can no longer be trusted to keep spending under the limit,
+ * so no further request is sent
+ */
+export function assertBudgetOpen(): void {
+  if (overrun) {
+    throw new BudgetExceededError(overrun);
+  }
+}
+
+/**
+ * Release a reservation once the request has finished or failed
+ */
+export function releaseBudget(estimatedCost: number): void {
+  reservedCost = Math.max(0, reservedCost - estimatedCost);
+}
+
+/**
+ * Record a request's usage and warn when spending crosses a threshold.
+ * A request that cost more than its reservation stops further requests.
+ */
+export async function recordUsage(
+  provider: LlmProviderName,
+  model: string,
+  usage: LlmUsage,
+  cost: number,
+  reserved = Infinity
+): Promise<void> {
+  await appendEntry({
+    timestamp: new Date().toISOString(),
+    runId,
+    provider,
+    model,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    cacheReadTokens: usage.cacheReadTokens,
+    cacheWriteTokens: usage.cacheWriteTokens,
+    cost,
+  });
+
+  if (cost > reserved && !overrun) {
+    overrun = `a request cost $${cost.toFixed(4)}, more than the $${reserved.toFixed(4)} reserved for it; no more requests are sent this run`;
+    console.error(`Budget reservation exceeded: ${overrun}`);
+  }
+
+  const status = computeBudgetStatus();
+  if (status.warningLevel && status.warningLevel > warnedLevel) {
+    warnedLevel = status.warningLevel;
+    console.warn(`Warning: ${status.warningLevel}% of the monthly budget used (${formatBudgetStatus(status)})`);
+  }
+}
+
+/**
+ * Work out spending this month and this run from the loaded ledger
+ */
+function computeBudgetStatus(): BudgetStatus {
+  const monthEntries = getMonthEntries();
+  const monthSpent = sumUsage(monthEntries).cost;
+  const percentUsed = (monthSpent / CONFIG.claude.monthlyCostLimit) * 100;
+  const models = [...new Set(monthEntries.map(entry => entry.model))];
+
+  return {
+    monthlyLimit: CONFIG.claude.monthlyCostLimit,
+    monthSpent,
+    runSpent: sumUsage(monthEntries.filter(entry => entry.runId === runId)).cost,
+    percentUsed,
+    warningLevel: WARNING_THRESHOLDS.filter(threshold => percentUsed >= threshold).pop(),
+    byModel: Object.fromEntries(models.map(model => [model, sumUsage(monthEntries.filter(entry => entry.model === model))])),
+  };
+}
+
+/**
+ * Get spending this month and this run against the budget
+ */
+export async function getBudgetStatus(): Promise<BudgetStatus> {
+  await loadUsageLedger();
+  return computeBudgetStatus();
+}
+
+/**
+ * Describe budget use for logs and reports ("$4.20 of $20.00 this month (21%), $0.35 this run")
+ */
+export function formatBudgetStatus(status: BudgetStatus): string {
+  return `$${status.monthSpent.toFixed(2)} of $${status.monthlyLimit.toFixed(2)} this month (${Math.round(status.percentUsed)}%), $${status.runSpent.toFixed(4)} this run`;
+}
+
+/**
+ * Get this month's usage totals
+ */
+export async function getMonthlyUsage(): Promise<UsageTotals> {
+  await loadUsageLedger();
+  return sumUsage(getMonthEntries());
+}
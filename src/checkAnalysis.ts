@@ -0,0 +1,36 @@
+// src/checkAnalysis.ts
+// Checks analysis through the provider interface against the fake provider
+// and local stand-ins for the OpenAI-compatible and Anthropic APIs: output
+// validation, prompt caching and its pricing, model prices, budget
+// reservations and the usage ledger (`npm test`)
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+// Nothing here reaches a real API, and the state files go to a directory
+// that is thrown away afterwards
+const outputDir = await mkdtemp(path.join(os.tmpdir(), 'check-analysis-'));
+process.env.OUTPUT_DIR = outputDir;
+process.env.LLM_PROVIDER = 'fake';
+process.env.CLAUDE_REQUESTS_PER_MINUTE = '1000';
+process.env.MONTHLY_COST_LIMIT = '10';
+process.env.LLM_MODEL = process.env.CLAUDE_MODEL = ''; // Default model and prices, whatever the environment sets
+['ANTHROPIC_INPUT_COST_PER_1K', 'ANTHROPIC_OUTPUT_COST_PER_1K', 'ANTHROPIC_CACHE_WRITE_COST_PER_1K', 'ANTHROPIC_CACHE_READ_COST_PER_1K']
+  .forEach(name => delete process.env[name]);
+
+const { CACHING_CHECKS, OUTPUT_CHECKS, PROVIDER_CHECKS, USAGE_CHECKS, runChecks } = await import('./analysis/analysisChecks.js');
+
+try {
+  const results = await runChecks([...PROVIDER_CHECKS, ...OUTPUT_CHECKS, ...CACHING_CHECKS, ...USAGE_CHECKS]);
+
+  results.forEach(result => {
+    console.log(`${result.problems.length === 0 ? 'PASS' : 'FAIL'}  ${result.name}`);
+    result.problems.forEach(problem => console.log(`        ${problem}`));
+  });
+
+  const failed = results.filter(result => result.problems.length > 0).length;
+  console.log(`\n${results.length - failed} of ${results.length} analysis checks passed`);
+  process.exitCode = failed > 0 ? 1 : 0;
+} finally {
+  await rm(outputDir, { recursive: true, force: true });
+}
@@ -0,0 +1,23 @@
+// src/checkExtraction.ts
+// Checks the extractor against the saved pages in fixtures/extraction
+// (`npm test`), or another corpus given as the first argument
+
+// Extraction never calls the LLM, so the check doesn't need an API key
+process.env.LLM_PROVIDER ||= 'fake';
+
+const { checkExtractionFixtures } = await import('./scraper/extractionFixtures.js');
+
+const fixturesDir = process.argv[2] || 'fixtures/extraction';
+const results = await checkExtractionFixtures(fixturesDir);
+
+results.forEach(result => {
+  const status = result.problems.length === 0 ? 'PASS' : 'FAIL';
+  console.log(`${status}  ${result.file.padEnd(36)} confidence ${result.confidence ?? '-'}, ${result.length} chars`);
+  result.problems.forEach(problem => console.log(`        ${problem}`));
+});
+
+const failed = results.filter(result => result.problems.length > 0).length;
+console.log(`\n${results.length - failed} of ${results.length} pages passed`);
+process.exitCode = failed > 0 ? 1 : 0;
+
+export {};
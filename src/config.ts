@@ -10,6 +10,14 @@ const projectRoot = path.resolve(__dirname, '..');
 // Load environment variables
 config();
 
+// Prices in dollars per 1K tokens that replace the model pricing table's
+const PricingOverridesSchema = z.object({
+  inputCostPer1k: z.coerce.number().nonnegative().optional(),
+  outputCostPer1k: z.coerce.number().nonnegative().optional(),
+  cacheWriteCostPer1k: z.coerce.number().nonnegative().optional(),
+  cacheReadCostPer1k: z.coerce.number().nonnegative().optional(),
+});
+
 // Define configuration schema with zod for validation
 const ConfigSchema = z.object({
   // Input/Output
@@ -23,29 +31,63 @@ const ConfigSchema = z.object({
     requestTimeout: z.coerce.number().int().positive().default(30000),
     requestDelay: z.coerce.number().int().positive().default(2000),
     retries: z.coerce.number().int().nonnegative().default(3),
+    quarantineAfterFailures: z.coerce.number().int().positive().default(5),
   }),
   
   // Scraper settings
   scraper: z.object({
     maxConcurrent: z.coerce.number().int().positive().default(10),
     requestTimeout: z.coerce.number().int().positive().default(30000),
-    requestDelay: z.coerce.number().int().positive().default(1000),
+    requestDelay: z.coerce.number().int().positive().default(1000), // Between requests to the same host
     retries: z.coerce.number().int().nonnegative().default(3),
     useProxy: z.coerce.boolean().default(false),
+    userAgent: z.string().default('rss-content-analyzer/1.0 (+https://github.com/ParksDivision/google_alerts_ai_filter)'),
+    maxConcurrentPerHost: z.coerce.number().int().positive().default(2),
+    respectRobotsTxt: z.string().default('true').transform(value => value.toLowerCase() !== 'false'),
+    profilesFilePath: z.string().default(path.join(projectRoot, 'extraction-profiles.yaml')),
+    minContentLength: z.coerce.number().int().nonnegative().default(300), // Shorter pages fall back to AMP/print or the feed snippet
   }),
   
-  // Claude API settings
+  // On-disk HTTP response cache for pages and feeds
+  cache: z.object({
+    enabled: z.string().default('true').transform(value => value.toLowerCase() !== 'false'),
+    ttlHours: z.coerce.number().positive().default(24),
+    feedTtlMinutes: z.coerce.number().nonnegative().default(15),
+    maxSizeMb: z.coerce.number().positive().default(500),
+  }),
+  
+  // Claude API settings (also used for the other LLM providers)
   claude: z.object({
-    apiKey: z.string().min(1),
-    model: z.string().default('claude-3-haiku-20240307'),
+    provider: z.enum(['anthropic', 'openai-compatible', 'fake']).default('anthropic'),
+    apiKey: z.string().default(''), // Required for the anthropic provider
+    model: z.string().optional(), // Claude 3 Haiku unless set; required for the OpenAI-compatible provider
+    baseUrl: z.string().url().default('http://localhost:11434/v1'), // OpenAI-compatible server (Ollama by default)
+    providerApiKey: z.string().optional(), // Bearer token for the OpenAI-compatible server, if it needs one
+    requestTimeout: z.coerce.number().int().positive().default(120000), // Local models can be slow
     maxTokensPerRequest: z.coerce.number().int().positive().default(4000), // Updated to safe value
-    // Cost management (using correct per-token pricing)
+    // Cost management; prices come from the model table in analysis/modelPricing.ts
     monthlyCostLimit: z.coerce.number().positive().default(20.0),
-    haiku_input_cost_per_1k: z.coerce.number().positive().default(0.00025), // Corrected pricing
-    haiku_output_cost_per_1k: z.coerce.number().positive().default(0.00125), // Corrected pricing
+    pricing: z.object({
+      anthropic: PricingOverridesSchema,
+      'openai-compatible': PricingOverridesSchema,
+      fake: PricingOverridesSchema,
+    }),
     // Rate limiting
     requestsPerMinute: z.coerce.number().int().positive().default(15),
     maxConcurrent: z.coerce.number().int().positive().default(5),
+  }).refine(claude => claude.provider !== 'anthropic' || claude.apiKey.length > 0, {
+    message: 'CLAUDE_API_KEY is required for the anthropic provider',
+    path: ['apiKey'],
+  }).refine(claude => claude.provider !== 'openai-compatible' || Boolean(claude.model), {
+    // A Claude model name means nothing to an Ollama or llama.cpp server
+    message: 'LLM_MODEL is required for the openai-compatible provider',
+    path: ['model'],
+  }).transform(claude => ({ ...claude, model: claude.model || 'claude-3-haiku-20240307' })),
+  
+  // Analysis settings
+  analysis: z.object({
+    minContentLength: z.coerce.number().int().nonnegative().default(100), // Articles with less text are not sent to Claude
+    batchTokenBudget: z.coerce.number().int().positive().default(12000), // Estimated input tokens per analysis request
   }),
   
   // Export settings
@@ -59,7 +101,7 @@ const ConfigSchema = z.object({
   // Performance settings
   performance: z.object({
     enableBatching: z.coerce.boolean().default(true),
-    batchSize: z.coerce.number().int().positive().default(2), // Updated to 2 articles per batch
+    batchSize: z.coerce.number().int().positive().default(5), // Also the most articles per analysis request
     lowMemoryMode: z.coerce.boolean().default(false),
   }),
   
@@ -78,6 +120,7 @@ export const CONFIG = ConfigSchema.parse({
     requestTimeout: process.env.RSS_TIMEOUT,
     requestDelay: process.env.RSS_DELAY,
     retries: process.env.RSS_RETRIES,
+    quarantineAfterFailures: process.env.RSS_QUARANTINE_AFTER_FAILURES,
   },
   
   scraper: {
@@ -86,19 +129,52 @@ export const CONFIG = ConfigSchema.parse({
     requestDelay: process.env.SCRAPER_DELAY,
     retries: process.env.SCRAPER_RETRIES,
     useProxy: process.env.USE_PROXY,
+    userAgent: process.env.SCRAPER_USER_AGENT,
+    maxConcurrentPerHost: process.env.SCRAPER_MAX_CONCURRENT_PER_HOST,
+    respectRobotsTxt: process.env.SCRAPER_RESPECT_ROBOTS_TXT,
+    profilesFilePath: process.env.EXTRACTION_PROFILES_PATH,
+    minContentLength: process.env.SCRAPER_MIN_CONTENT_LENGTH,
+  },
+  
+  cache: {
+    enabled: process.env.HTTP_CACHE_ENABLED,
+    ttlHours: process.env.HTTP_CACHE_TTL_HOURS,
+    feedTtlMinutes: process.env.HTTP_CACHE_FEED_TTL_MINUTES,
+    maxSizeMb: process.env.HTTP_CACHE_MAX_MB,
   },
   
   claude: {
-    apiKey: process.env.CLAUDE_API_KEY || '',
-    model: process.env.CLAUDE_MODEL,
+    provider: process.env.LLM_PROVIDER,
+    apiKey: process.env.CLAUDE_API_KEY || process.env.ANTHROPIC_API_KEY || '',
+    model: process.env.LLM_MODEL || process.env.CLAUDE_MODEL,
+    baseUrl: process.env.LLM_BASE_URL,
+    providerApiKey: process.env.LLM_API_KEY,
+    requestTimeout: process.env.LLM_TIMEOUT,
     maxTokensPerRequest: process.env.CLAUDE_MAX_TOKENS,
     monthlyCostLimit: process.env.MONTHLY_COST_LIMIT,
-    haiku_input_cost_per_1k: 0.00025, // Fixed correct pricing
-    haiku_output_cost_per_1k: 0.00125, // Fixed correct pricing
+    pricing: {
+      anthropic: {
+        inputCostPer1k: process.env.ANTHROPIC_INPUT_COST_PER_1K,
+        outputCostPer1k: process.env.ANTHROPIC_OUTPUT_COST_PER_1K,
+        cacheWriteCostPer1k: process.env.ANTHROPIC_CACHE_WRITE_COST_PER_1K,
+        cacheReadCostPer1k: process.env.ANTHROPIC_CACHE_READ_COST_PER_1K,
+      },
+      'openai-compatible': {
+        inputCostPer1k: process.env.LLM_INPUT_COST_PER_1K,
+        outputCostPer1k: process.env.LLM_OUTPUT_COST_PER_1K,
+        cacheReadCostPer1k: process.env.LLM_CACHE_READ_COST_PER_1K,
+      },
+      fake: {},
+    },
     requestsPerMinute: process.env.CLAUDE_REQUESTS_PER_MINUTE,
     maxConcurrent: process.env.CLAUDE_MAX_CONCURRENT,
   },
   
+  analysis: {
+    minContentLength: process.env.ANALYSIS_MIN_CONTENT_LENGTH,
+    batchTokenBudget: process.env.ANALYSIS_BATCH_TOKEN_BUDGET,
+  },
+  
   export: {
     defaultFormat: process.env.DEFAULT_EXPORT_FORMAT,
     includeFullContent: process.env.INCLUDE_FULL_CONTENT,
@@ -6,15 +6,27 @@ import { z } from 'zod';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 
-import { scrapeArticles, ArticleOutput } from './scraper/index.js';
-import { analyzeContent } from './analysis/index.js';
-import { getCostInformation } from './analysis/index.js';
+import { scrapeArticles, ArticleInput, ArticleOutput } from './scraper/index.js';
+import { extractArticleContent } from './scraper/articleExtractor.js';
+import { getExtractionProfile } from './scraper/extractionProfiles.js';
+import { countScrapeFailures, formatScrapeFailure } from './scraper/scrapeFailures.js';
+import { analyzeContent, AnalyzedArticle, compareByRelevance } from './analysis/index.js';
+import { formatBudgetStatus, getBudgetStatus, getCostInformation, startUsageRun } from './analysis/index.js';
 import { readArticleLinks, readScrapedArticles, writeScrapedArticles } from './utils/csvHandler.js';
 import { exportAnalyzedArticles } from './utils/exportFormatter.js';
 import CONFIG, { ExportFormat } from './config.js';
 import { createServer } from './server.js';
-import { processAndExportRssFeeds } from './rss/feedProcessor.js';
-import { loadAnalysisCriteria } from './utils/criteriaUtils.js';
+import { createWatchSchedule, runOnSchedule } from './watch.js';
+import { attachFeedDetails, exportArticlesToCsv, processAndExportRssFeeds, readRssFeeds } from './rss/feedProcessor.js';
+import { RssFeedConfig } from './rss/feedSource.js';
+import { readEmailDigests } from './rss/emailDigest.js';
+import { formatFeedHealthReport, getFeedHealthReport, releaseQuarantinedFeeds } from './rss/feedHealth.js';
+import { commitFeedPolls } from './rss/feedState.js';
+import { exportOpmlFeeds, importOpmlFeeds } from './rss/opml.js';
+import { createCriteriaResolver, groupByCriteria, loadAnalysisCriteria } from './utils/criteriaUtils.js';
+import { isFailedAnalysis, partitionByLedger, recordAnalyzed, recordScraped } from './utils/articleLedger.js';
+import { filterByPublishedDate, resolvePublishedCutoff } from './utils/dateWindow.js';
+import { HttpCacheMode, getHttpCacheStats, setHttpCacheMode } from './utils/httpCache.js';
 
 // Note: You'll need to create this file first before importing from it
 // Make sure the path matches where you create the file
@@ -31,14 +43,32 @@ export const OptionsSchema = z.object({
   includeFullContent: z.boolean().optional().default(CONFIG.export.includeFullContent),
   startServer: z.boolean().optional().default(false),
   port: z.number().optional().default(3000),
+  reprocess: z.boolean().optional().default(false),
+  feedsFilePath: z.string().optional().default(CONFIG.rss.feedsFilePath),
+  since: z.string().optional(),
+  maxAge: z.string().optional(),
+  cacheMode: z.enum(['use', 'refresh', 'bypass']).optional().default('use'),
 });
 
 export type RssAnalyzerOptions = z.infer<typeof OptionsSchema>;
 
+// What an analysis run exported, and the articles it left to retry
+interface AnalysisRun {
+  exportedPath: string;
+  unfinished: AnalyzedArticle[]; // Left unscored by a failed or skipped request
+}
+
 /**
  * Main function to run the RSS feed analysis process
  */
 export async function runAnalysis(options: RssAnalyzerOptions): Promise<string> {
+  return (await analyzeArticleFile(options)).exportedPath;
+}
+
+/**
+ * Run the analysis process and report which articles still need a score
+ */
+async function analyzeArticleFile(options: RssAnalyzerOptions): Promise<AnalysisRun> {
   // Validate options
   const validatedOptions = OptionsSchema.parse(options);
   
@@ -52,10 +82,23 @@ export async function runAnalysis(options: RssAnalyzerOptions): Promise<string>
     minRelevanceScore,
     includeFullContent,
     startServer,
-    port
+    port,
+    reprocess,
+    feedsFilePath,
+    since,
+    maxAge,
+    cacheMode
   } = validatedOptions;
   
   console.log('Starting RSS feed analysis process...');
+  console.log(`Usage ledger run ID: ${startUsageRun()}`);
+  setHttpCacheMode(cacheMode);
+  
+  // Resolve the publication-date window up front so a bad --since/--max-age fails fast
+  const publishedCutoff = resolvePublishedCutoff({ since, maxAge });
+  if (publishedCutoff) {
+    console.log(`Only keeping articles published since ${publishedCutoff.toISOString()}`);
+  }
   
   // Create output directory if it doesn't exist
   await fs.mkdir(outputDir, { recursive: true });
@@ -76,15 +119,39 @@ export async function runAnalysis(options: RssAnalyzerOptions): Promise<string>
     `analyzed-articles-${timestamp}.${extension}`
   );
   
+  // Load the feed registry so articles pick up their feed's label, tags, criteria profile and scraper overrides
+  const feeds = await loadFeedRegistry(feedsFilePath);
+  
   // Step 1: Read input CSV
   console.log(`Reading article links from ${inputCsvPath}`);
-  const articleLinks = await readArticleLinks(inputCsvPath);
+  const articleLinks = attachFeedDetails(await readArticleLinks(inputCsvPath), feeds);
   console.log(`Found ${articleLinks.length} article links`);
   
+  // Resolve per-feed criteria profiles, falling back to the given criteria
+  const getCriteria = await createCriteriaResolver(articleLinks, criteria);
+  
   // Step 1b: Deduplicate article links by URL
-  const uniqueArticleLinks = deduplicateArticleInputs(articleLinks);
+  let uniqueArticleLinks = deduplicateArticleInputs(articleLinks);
   console.log(`After deduplication: ${uniqueArticleLinks.length} unique article links (removed ${articleLinks.length - uniqueArticleLinks.length} duplicates)`);
   
+  // Step 1c: Drop articles the feed says were published before the cutoff
+  let droppedByDateCount = 0;
+  if (publishedCutoff) {
+    const { kept, dropped } = filterByPublishedDate(uniqueArticleLinks, publishedCutoff, article => article.pubDate);
+    droppedByDateCount += dropped.length;
+    uniqueArticleLinks = kept;
+    console.log(`Dropped ${dropped.length} articles published before ${publishedCutoff.toISOString()}`);
+  }
+  
+  // Step 1d: Skip articles already analyzed with these criteria in a previous run
+  let skippedSeenCount = 0;
+  if (!reprocess) {
+    const { fresh, seen } = await partitionByLedger(uniqueArticleLinks, getCriteria);
+    skippedSeenCount = seen.length;
+    uniqueArticleLinks = fresh;
+    console.log(`Skipping ${seen.length} articles already analyzed in previous runs (use --reprocess to include them)`);
+  }
+  
   // Step 2: Scrape articles (or use existing data)
   let shouldScrape = !initialSkipScraping;
   let scrapedArticles: ArticleOutput[] = [];
@@ -93,12 +160,26 @@ export async function runAnalysis(options: RssAnalyzerOptions): Promise<string>
     try {
       await fs.access(scrapedDataPath);
       console.log(`Using existing scraped data from ${scrapedDataPath}`);
-      scrapedArticles = await readScrapedArticles(scrapedDataPath);
+      scrapedArticles = attachFeedDetails(await readScrapedArticles(scrapedDataPath), feeds);
       
       // Step 2b: Deduplicate loaded scraped articles
       const uniqueScrapedArticles = deduplicateScrapedArticles(scrapedArticles);
       console.log(`After deduplication: ${uniqueScrapedArticles.length} unique scraped articles (removed ${scrapedArticles.length - uniqueScrapedArticles.length} duplicates)`);
       scrapedArticles = uniqueScrapedArticles;
+      
+      if (publishedCutoff) {
+        const { kept, dropped } = filterByPublishedDate(scrapedArticles, publishedCutoff, article => article.pubDate);
+        droppedByDateCount += dropped.length;
+        scrapedArticles = kept;
+        console.log(`Dropped ${dropped.length} scraped articles published before ${publishedCutoff.toISOString()}`);
+      }
+      
+      if (!reprocess) {
+        const { fresh, seen } = await partitionByLedger(scrapedArticles, getCriteria);
+        skippedSeenCount += seen.length;
+        scrapedArticles = fresh;
+        console.log(`Skipping ${seen.length} scraped articles already analyzed in previous runs`);
+      }
     } catch (error) {
       console.warn(`Could not access ${scrapedDataPath}, proceeding with scraping`);
       shouldScrape = true;
@@ -147,19 +228,31 @@ export async function runAnalysis(options: RssAnalyzerOptions): Promise<string>
     
     await writeScrapedArticles(scrapedArticles, scrapedOutputPath);
     console.log(`Scraped articles saved to ${scrapedOutputPath}`);
+    await recordScraped(scrapedArticles);
   }
   
-  // Step 3: Analyze articles with Claude
+  // Step 2d: Re-check the window against the date found on the page, which
+  // catches old articles that a feed re-published with a fresh date
+  if (publishedCutoff) {
+    const { kept, dropped } = filterByPublishedDate(scrapedArticles, publishedCutoff, article => article.pageDate);
+    droppedByDateCount += dropped.length;
+    scrapedArticles = kept;
+    console.log(`Dropped ${dropped.length} articles whose page date is before ${publishedCutoff.toISOString()}`);
+  }
+  
+  // Step 3: Analyze articles with Claude, one pass per criteria profile
   console.log('Starting content analysis with Claude...');
-  let analyzedArticles = await analyzeContent(
-    scrapedArticles,
-    criteria
-  );
+  let analyzedArticles: AnalyzedArticle[] = [];
+  for (const [groupCriteria, groupArticles] of groupByCriteria(scrapedArticles, getCriteria)) {
+    analyzedArticles.push(...await analyzeContent(groupArticles, groupCriteria));
+  }
+  analyzedArticles.sort(compareByRelevance);
   
   // Step 3b: Deduplicate analyzed articles (in case any slipped through)
   const uniqueAnalyzedArticles = deduplicateAnalyzedArticles(analyzedArticles);
   console.log(`After final deduplication: ${uniqueAnalyzedArticles.length} unique analyzed articles (removed ${analyzedArticles.length - uniqueAnalyzedArticles.length} duplicates)`);
   analyzedArticles = uniqueAnalyzedArticles;
+  await recordAnalyzed(analyzedArticles, getCriteria);
   
   // Step 4: Export analyzed articles
   const exportOptions = {
@@ -167,7 +260,8 @@ export async function runAnalysis(options: RssAnalyzerOptions): Promise<string>
     outputPath: analyzedOutputPath,
     includeFullContent,
     minRelevanceScore,
-    chunkSize: CONFIG.export.chunkSize
+    chunkSize: CONFIG.export.chunkSize,
+    budget: await getBudgetStatus()
   };
   
   const exportedPath = await exportAnalyzedArticles(analyzedArticles, exportOptions);
@@ -175,11 +269,41 @@ export async function runAnalysis(options: RssAnalyzerOptions): Promise<string>
   
   // Step 5: Report cost information
   const costInfo = await getCostInformation();
-  console.log('\nClaude API usage:');
+  console.log('\nAPI usage this month:');
   console.log(`Total cost: $${costInfo.totalCost.toFixed(4)}`);
   console.log(`Total input tokens: ${costInfo.inputTokens}`);
   console.log(`Total output tokens: ${costInfo.outputTokens}`);
+  console.log(`Total cache read tokens: ${costInfo.cacheReadTokens}`);
+  console.log(`Total cache write tokens: ${costInfo.cacheWriteTokens}`);
   console.log(`Total requests: ${costInfo.requestCount}`);
+  const budget = await getBudgetStatus();
+  console.log(`Budget: ${formatBudgetStatus(budget)}`);
+  Object.entries(budget.byModel).forEach(([model, usage]) => {
+    console.log(`  ${model}: $${usage.cost.toFixed(4)} over ${usage.requestCount} requests this month`);
+  });
+  if (skippedSeenCount > 0) {
+    console.log(`Articles skipped as already analyzed: ${skippedSeenCount}`);
+  }
+  const skipCounts = scrapedArticles.reduce<Record<string, number>>((counts, article) => {
+    if (article.skipReason) {
+      counts[article.skipReason] = (counts[article.skipReason] || 0) + 1;
+    }
+    return counts;
+  }, {});
+  Object.entries(skipCounts).forEach(([reason, count]) => {
+    console.log(`Articles not scraped (${reason}): ${count}`);
+  });
+  const failureCounts = Object.entries(countScrapeFailures(scrapedArticles));
+  if (failureCounts.length > 0) {
+    console.log('Scrape failures:');
+    failureCounts
+      .sort(([, a], [, b]) => b - a)
+      .forEach(([code, count]) => console.log(`  ${code}: ${count}`));
+  }
+  if (publishedCutoff) {
+    console.log(`Articles dropped as published before ${publishedCutoff.toISOString()}: ${droppedByDateCount}`);
+  }
+  logHttpCacheStats();
   
   // Step 6: Start server if requested
   if (startServer) {
@@ -196,15 +320,82 @@ export async function runAnalysis(options: RssAnalyzerOptions): Promise<string>
     }
   }
   
-  return exportedPath;
+  return { exportedPath, unfinished: analyzedArticles.filter(isFailedAnalysis) };
 }
 
 /**
- * Process RSS feeds from a file and export to CSV format
+ * Load the feed registry if it exists; analysis still works without one
  */
-export async function processRss(feedsFilePath: string, outputPath?: string): Promise<string> {
+async function loadFeedRegistry(feedsFilePath: string): Promise<RssFeedConfig[]> {
+  try {
+    return await readRssFeeds(feedsFilePath);
+  } catch (error: any) {
+    console.warn(`Could not load feed registry from ${feedsFilePath}: ${error.message}`);
+    return [];
+  }
+}
+
+/**
+ * Print HTTP cache hits and misses for the run, if the cache was used
+ */
+function logHttpCacheStats(): void {
+  const cacheStats = getHttpCacheStats();
+  if (cacheStats.hits + cacheStats.misses > 0) {
+    console.log(`HTTP cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses, ${cacheStats.stores} stored, ${cacheStats.evictions} evicted`);
+  }
+}
+
+/**
+ * Map the --bypass-cache / --refresh-cache flags to a cache mode
+ */
+function getCacheMode(argv: Record<string, unknown>): HttpCacheMode {
+  if (argv.bypassCache) {
+    return 'bypass';
+  }
+  return argv.refreshCache ? 'refresh' : 'use';
+}
+
+/**
+ * Process RSS feeds from a file and export to CSV format. The fetched items
+ * are marked as seen once the CSV is written, unless commitPolls is false
+ * and the caller does it after processing them further.
+ */
+export async function processRss(
+  feedsFilePath: string,
+  outputPath?: string,
+  fullRefresh = false,
+  cacheMode: HttpCacheMode = 'use',
+  commitPolls = true
+): Promise<string> {
   console.log(`Processing RSS feeds from ${feedsFilePath}`);
-  return processAndExportRssFeeds(feedsFilePath, outputPath);
+  setHttpCacheMode(cacheMode);
+  
+  const result = await processAndExportRssFeeds(feedsFilePath, outputPath, { fullRefresh });
+  if (commitPolls) {
+    await commitFeedPolls();
+  }
+  logHttpCacheStats();
+  return result;
+}
+
+/**
+ * Import Google Alerts email digests (.eml files, mbox exports or directories
+ * of them) into an article CSV that `analyze` can read
+ */
+export async function importEmail(inputPaths: string[], outputPath?: string): Promise<string> {
+  const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
+  const actualOutputPath = outputPath || join(CONFIG.inputDir, `processed-emails-${timestamp}.csv`);
+  
+  const articles: ArticleInput[] = [];
+  for (const inputPath of inputPaths) {
+    articles.push(...await readEmailDigests(inputPath));
+  }
+  
+  const uniqueArticles = deduplicateArticleInputs(articles);
+  const exportedPath = await exportArticlesToCsv(uniqueArticles, actualOutputPath);
+  console.log(`Exported ${uniqueArticles.length} articles from email digests to ${exportedPath}`);
+  
+  return exportedPath;
 }
 
 /**
@@ -217,6 +408,12 @@ export async function runEntirePipeline(options: {
   minRelevanceScore?: number;
   includeFullContent?: boolean;
   port?: number;
+  reprocess?: boolean;
+  fullRefresh?: boolean;
+  since?: string;
+  maxAge?: string;
+  startServer?: boolean;
+  cacheMode?: HttpCacheMode;
 }): Promise<string> {
   const {
     feedsFilePath,
@@ -224,7 +421,13 @@ export async function runEntirePipeline(options: {
     exportFormat = CONFIG.export.defaultFormat,
     minRelevanceScore = CONFIG.export.minRelevanceScore,
     includeFullContent = CONFIG.export.includeFullContent,
-    port = 3000
+    port = 3000,
+    reprocess = false,
+    fullRefresh = false,
+    since,
+    maxAge,
+    startServer = true,
+    cacheMode = 'use'
   } = options;
 
   // Step 1: Process RSS feeds to CSV
@@ -232,7 +435,9 @@ export async function runEntirePipeline(options: {
   const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
   const csvOutputPath = join(CONFIG.inputDir, `processed-feeds-${timestamp}.csv`);
   
-  const processedCsvPath = await processRss(feedsFilePath, csvOutputPath);
+  // Items are only marked as seen once they have been analyzed, so a run
+  // that fails part way, or leaves articles unscored, offers them again
+  const processedCsvPath = await processRss(feedsFilePath, csvOutputPath, fullRefresh, cacheMode, false);
   console.log(`RSS feeds processed to: ${processedCsvPath}`);
   
   // Step 2: Load analysis criteria
@@ -242,23 +447,63 @@ export async function runEntirePipeline(options: {
   
   // Step 3: Run analysis
   console.log('\n== STEP 3: RUNNING ANALYSIS ==');
-  const analysisResult = await runAnalysis({
+  const analysisRun = await analyzeArticleFile({
     inputCsvPath: processedCsvPath,
     criteria,
     outputDir: CONFIG.outputDir,
     exportFormat,
     minRelevanceScore,
     includeFullContent,
-    startServer: true,
+    startServer,
     port,
     skipScraping: false,  // Add this line to fix the error
-    scrapedDataPath: undefined  // Add this optional parameter for completeness
+    scrapedDataPath: undefined,  // Add this optional parameter for completeness
+    reprocess,
+    feedsFilePath,
+    since,
+    maxAge,
+    cacheMode
   });
   
+  await commitFeedPolls(analysisRun.unfinished);
+  
   console.log('\n== PIPELINE COMPLETE ==');
-  console.log(`Final output: ${analysisResult}`);
+  console.log(`Final output: ${analysisRun.exportedPath}`);
   
-  return analysisResult;
+  return analysisRun.exportedPath;
+}
+
+/**
+ * Run the entire pipeline on a schedule, serving the reports between runs.
+ * Which items are new comes from the feed state and the article ledger, so
+ * items a feed delivers late are still picked up; a publication-date window
+ * only applies when one is given with since or maxAge.
+ */
+export async function watchPipeline(options: {
+  feedsFilePath: string;
+  criteriaFilePath?: string;
+  cron?: string;
+  interval?: string;
+  exportFormat?: ExportFormat;
+  minRelevanceScore?: number;
+  includeFullContent?: boolean;
+  port?: number;
+  since?: string;
+  maxAge?: string;
+}): Promise<never> {
+  const { cron, interval, port = 3000, ...pipelineOptions } = options;
+  
+  const schedule = createWatchSchedule({ cron, interval });
+  console.log(`Watching feeds from ${options.feedsFilePath} (${schedule.description})`);
+  
+  await createServer(port, CONFIG.outputDir);
+  console.log(`Reports are served at http://localhost:${port}/`);
+  
+  return runOnSchedule(schedule, () => runEntirePipeline({
+    ...pipelineOptions,
+    port,
+    startServer: false,
+  }));
 }
 
 // Command line interface handler
@@ -307,6 +552,34 @@ async function cli() {
             type: 'boolean',
             default: CONFIG.export.includeFullContent,
           })
+          .option('reprocess', {
+            describe: 'Scrape and analyze articles even if a previous run already analyzed them',
+            type: 'boolean',
+            default: false,
+          })
+          .option('since', {
+            describe: 'Only analyze articles published since this date (e.g. 2024-05-01) or duration ago (e.g. 7d)',
+            type: 'string',
+          })
+          .option('max-age', {
+            describe: 'Only analyze articles published within this duration (e.g. 36h, 7d, 2w)',
+            type: 'string',
+          })
+          .option('feeds', {
+            describe: 'Feed registry (CSV, JSON or YAML) used for labels, tags, criteria profiles and scraper overrides',
+            type: 'string',
+            default: CONFIG.rss.feedsFilePath,
+          })
+          .option('bypass-cache', {
+            describe: 'Fetch everything from the network without reading or writing the HTTP cache',
+            type: 'boolean',
+            default: false,
+          })
+          .option('refresh-cache', {
+            describe: 'Fetch everything from the network and update the HTTP cache',
+            type: 'boolean',
+            default: false,
+          })
           .option('start-server', {
             describe: 'Start a web server to view results immediately',
             type: 'boolean',
@@ -349,6 +622,37 @@ async function cli() {
           .positional('outputPath', {
             describe: 'Output path for the processed CSV',
             type: 'string',
+          })
+          .option('full-refresh', {
+            describe: 'Ignore stored feed state and fetch every item again',
+            type: 'boolean',
+            default: false,
+          })
+          .option('bypass-cache', {
+            describe: 'Fetch everything from the network without reading or writing the HTTP cache',
+            type: 'boolean',
+            default: false,
+          })
+          .option('refresh-cache', {
+            describe: 'Fetch everything from the network and update the HTTP cache',
+            type: 'boolean',
+            default: false,
+          });
+      }
+    )
+    .command(
+      'import-email <inputs..>',
+      'Import Google Alerts email digests (.eml, mbox, or directories of them) to an article CSV',
+      (yargs) => {
+        return yargs
+          .positional('inputs', {
+            describe: 'Paths to .eml files, mbox exports, or directories',
+            type: 'string',
+            array: true,
+          })
+          .option('output', {
+            describe: 'Output path for the article CSV',
+            type: 'string',
           });
       }
     )
@@ -382,10 +686,139 @@ async function cli() {
             type: 'boolean',
             default: CONFIG.export.includeFullContent,
           })
+          .option('reprocess', {
+            describe: 'Scrape and analyze articles even if a previous run already analyzed them',
+            type: 'boolean',
+            default: false,
+          })
+          .option('full-refresh', {
+            describe: 'Ignore stored feed state and fetch every item again',
+            type: 'boolean',
+            default: false,
+          })
+          .option('bypass-cache', {
+            describe: 'Fetch everything from the network without reading or writing the HTTP cache',
+            type: 'boolean',
+            default: false,
+          })
+          .option('refresh-cache', {
+            describe: 'Fetch everything from the network and update the HTTP cache',
+            type: 'boolean',
+            default: false,
+          })
+          .option('since', {
+            describe: 'Only analyze articles published since this date (e.g. 2024-05-01) or duration ago (e.g. 7d)',
+            type: 'string',
+          })
+          .option('max-age', {
+            describe: 'Only analyze articles published within this duration (e.g. 36h, 7d, 2w)',
+            type: 'string',
+          })
+          .option('port', {
+            describe: 'Port for the web server',
+            type: 'number',
+            default: 3000,
+          });
+      }
+    )
+    .command(
+      'scrape <url>',
+      'Extract the article content from a single URL',
+      (yargs) => {
+        return yargs
+          .positional('url', {
+            describe: 'Article URL to scrape',
+            type: 'string',
+          })
+          .option('debug', {
+            describe: 'Show the extraction profile, confidence and metadata that were used',
+            type: 'boolean',
+            default: false,
+          });
+      }
+    )
+    .command(
+      'watch [feedsFile] [criteriaFile]',
+      'Run the complete pipeline on a schedule and keep serving the results',
+      (yargs) => {
+        return yargs
+          .positional('feedsFile', {
+            describe: 'Path to the CSV file containing RSS feed URLs',
+            type: 'string',
+            default: CONFIG.rss.feedsFilePath,
+          })
+          .positional('criteriaFile', {
+            describe: 'Path to file containing analysis criteria',
+            type: 'string',
+          })
+          .option('cron', {
+            describe: 'Cron expression for when to run (e.g. "0 7 * * *")',
+            type: 'string',
+          })
+          .option('interval', {
+            describe: 'Time between runs (e.g. 30m, 6h, 1d)',
+            type: 'string',
+          })
+          .option('export-format', {
+            describe: 'Format for exporting results (csv, excel, json, markdown, html)',
+            type: 'string',
+            choices: ['csv', 'excel', 'json', 'markdown', 'html'] as const,
+            default: CONFIG.export.defaultFormat,
+          })
+          .option('min-score', {
+            describe: 'Minimum relevance score (0-100) for including articles',
+            type: 'number',
+            default: CONFIG.export.minRelevanceScore,
+          })
+          .option('include-content', {
+            describe: 'Include full article content in export',
+            type: 'boolean',
+            default: CONFIG.export.includeFullContent,
+          })
+          .option('since', {
+            describe: 'Only analyze articles published since this date (e.g. 2024-05-01) or duration ago (e.g. 7d)',
+            type: 'string',
+          })
+          .option('max-age', {
+            describe: 'Only analyze articles published within this duration (e.g. 36h, 7d, 2w)',
+            type: 'string',
+          })
           .option('port', {
             describe: 'Port for the web server',
             type: 'number',
             default: 3000,
+          })
+          .check(argv => {
+            if (!argv.cron === !argv.interval) {
+              throw new Error('Specify exactly one of --cron or --interval');
+            }
+            return true;
+          });
+      }
+    )
+    .command(
+      'feeds <action> [feedsFile]',
+      'Manage feeds (actions: health, import, export)',
+      (yargs) => {
+        return yargs
+          .positional('action', {
+            describe: 'Feed management action',
+            type: 'string',
+            choices: ['health', 'import', 'export'] as const,
+          })
+          .positional('feedsFile', {
+            describe: 'Path to the feed list (CSV, JSON or YAML)',
+            type: 'string',
+            default: CONFIG.rss.feedsFilePath,
+          })
+          .option('opml', {
+            describe: 'OPML file to import from or export to',
+            type: 'string',
+          })
+          .option('release', {
+            describe: 'Feed URL(s) to take out of quarantine',
+            type: 'array',
+            string: true,
           });
       }
     )
@@ -410,6 +843,11 @@ async function cli() {
         includeFullContent: argv.includeContent as boolean,
         startServer: argv.startServer as boolean,
         port: argv.port as number,
+        reprocess: argv.reprocess as boolean,
+        feedsFilePath: argv.feeds as string,
+        since: argv.since as string | undefined,
+        maxAge: argv.maxAge as string | undefined,
+        cacheMode: getCacheMode(argv),
       });
       
       console.log(`\nAnalysis complete! Results saved to: ${result}`);
@@ -440,13 +878,22 @@ async function cli() {
       const feedsFile = argv.feedsFile as string;
       const outputPath = argv.outputPath as string | undefined;
       
-      const result = await processRss(feedsFile, outputPath);
+      const result = await processRss(feedsFile, outputPath, argv.fullRefresh as boolean, getCacheMode(argv));
       console.log(`\nRSS processing complete! Results saved to: ${result}`);
     } catch (error: any) {
       console.error('Error:', error.message);
       process.exit(1);
     }
   }
+  else if (argv._[0] === 'import-email') {
+    try {
+      const result = await importEmail(argv.inputs as string[], argv.output as string | undefined);
+      console.log(`\nEmail import complete! Results saved to: ${result}`);
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  }
   else if (argv._[0] === 'run-all') {
     try {
       const feedsFile = argv.feedsFile as string;
@@ -459,6 +906,11 @@ async function cli() {
         minRelevanceScore: argv.minScore as number,
         includeFullContent: argv.includeContent as boolean,
         port: argv.port as number,
+        reprocess: argv.reprocess as boolean,
+        fullRefresh: argv.fullRefresh as boolean,
+        since: argv.since as string | undefined,
+        maxAge: argv.maxAge as string | undefined,
+        cacheMode: getCacheMode(argv),
       });
       
       console.log(`\nComplete pipeline execution finished successfully!`);
@@ -468,6 +920,109 @@ async function cli() {
       process.exit(1);
     }
   }
+  else if (argv._[0] === 'scrape') {
+    try {
+      const url = argv.url as string;
+      const content = await extractArticleContent(url);
+      
+      if (argv.debug) {
+        const matchedProfile = getExtractionProfile(url);
+        console.log(`Profile:    ${matchedProfile ? `${matchedProfile.domain} (${CONFIG.scraper.profilesFilePath})` : 'none (content scoring)'}`);
+        if (matchedProfile) {
+          console.log(JSON.stringify(matchedProfile.profile, null, 2));
+        }
+        console.log(`Confidence: ${content.confidence ?? '-'}`);
+        console.log(`Title:      ${content.title}`);
+        console.log(`Date:       ${content.date || '-'}`);
+        console.log(`Byline:     ${content.byline || '-'}`);
+        console.log(`Site:       ${content.siteName}`);
+        if (content.metadata) {
+          console.log(`Schema:     ${content.metadata.schemaType || '-'}${content.metadata.publisherType ? ` (publisher: ${content.metadata.publisherType})` : ''}`);
+          console.log(`Modified:   ${content.metadata.dateModified || '-'}`);
+        }
+        console.log(`Length:     ${content.length} chars`);
+        if (content.ampUrl) {
+          console.log(`AMP/print:  ${content.ampUrl}`);
+        }
+        if (content.failure) {
+          console.log(`Failure:    ${formatScrapeFailure(content.failure)}${content.failure.retryable ? ', retryable' : ''}`);
+        }
+        if (content.error) {
+          console.log(`Error:      ${content.error}`);
+        }
+        console.log('');
+      }
+      
+      console.log(content.textContent);
+      if (content.error && !argv.debug) {
+        console.error('Error:', content.error);
+        process.exit(1);
+      }
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  }
+  else if (argv._[0] === 'watch') {
+    try {
+      await watchPipeline({
+        feedsFilePath: argv.feedsFile as string,
+        criteriaFilePath: argv.criteriaFile as string | undefined,
+        cron: argv.cron as string | undefined,
+        interval: argv.interval as string | undefined,
+        exportFormat: argv.exportFormat as ExportFormat,
+        minRelevanceScore: argv.minScore as number,
+        includeFullContent: argv.includeContent as boolean,
+        since: argv.since as string | undefined,
+        maxAge: argv.maxAge as string | undefined,
+        port: argv.port as number,
+      });
+    } catch (error: any) {
+      console.error('Error in watch mode:', error.message);
+      process.exit(1);
+    }
+  }
+  else if (argv._[0] === 'feeds' && argv.action === 'health') {
+    try {
+      const feeds = await readRssFeeds(argv.feedsFile as string);
+      
+      const release = (argv.release as string[] | undefined) || [];
+      if (release.length > 0) {
+        const released = await releaseQuarantinedFeeds(release);
+        console.log(`Released ${released.length} feed(s) from quarantine`);
+      }
+      
+      const report = await getFeedHealthReport(feeds);
+      console.log(formatFeedHealthReport(report));
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  }
+  else if (argv._[0] === 'feeds' && (argv.action === 'import' || argv.action === 'export')) {
+    try {
+      const opmlPath = argv.opml as string | undefined;
+      if (!opmlPath) {
+        throw new Error(`feeds ${argv.action} requires --opml <file>`);
+      }
+      
+      if (argv.action === 'import') {
+        const result = await importOpmlFeeds(opmlPath, argv.feedsFile as string);
+        console.log(`Imported ${result.added.length} feed(s) into ${argv.feedsFile} (${result.total} total)`);
+        
+        if (result.duplicates.length > 0) {
+          console.log(`Skipped ${result.duplicates.length} feed(s) already in the list:`);
+          result.duplicates.forEach(feed => console.log(`  ${feed.label || feed.alertName}: ${feed.url}`));
+        }
+      } else {
+        const result = await exportOpmlFeeds(argv.feedsFile as string, opmlPath);
+        console.log(`Feeds exported to: ${result}`);
+      }
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  }
 }
 
 // Execute the CLI if this file is run directly
@@ -478,5 +1033,7 @@ if (process.argv[1] === fileURLToPath(import.meta.url)) {
 export default {
   runAnalysis,
   processRss,
-  runEntirePipeline
-};
\ No newline at end of file
+  importEmail,
+  runEntirePipeline,
+  watchPipeline
+};
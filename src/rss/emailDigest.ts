@@ -0,0 +1,284 @@
+// src/rss/emailDigest.ts
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import * as cheerio from 'cheerio';
+import { ArticleInput } from '../scraper/index.js';
+import { canonicalizeUrl, unwrapGoogleRedirect } from '../utils/urlUtils.js';
+import { stripHtml, toIsoDate } from '../utils/textUtils.js';
+
+// A decoded email: headers (lower-cased names) and its HTML body, if any
+export interface EmailMessage {
+  headers: Record<string, string>;
+  html: string;
+}
+
+// The articles of one digest email, with an id for recognising the email again
+export interface EmailDigest {
+  messageId: string;
+  articles: ArticleInput[];
+}
+
+// Link texts in alert digests that are not articles
+const NON_ARTICLE_LINK_TEXT = /^(flag as irrelevant|see more results|edit this alert|unsubscribe|view all your alerts|rss|send feedback|google alerts?)$/i;
+
+/**
+ * Split a raw header block into a map of lower-cased names to unfolded values
+ */
+function parseHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const unfolded = block.replace(/\r?\n[ \t]+/g, ' ');
+
+  for (const line of unfolded.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      const name = line.substring(0, separator).trim().toLowerCase();
+      // Keep the first occurrence of repeated headers
+      if (!(name in headers)) {
+        headers[name] = line.substring(separator + 1).trim();
+      }
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * Get a parameter (e.g. boundary, charset) from a structured header value
+ */
+function getHeaderParam(value: string | undefined, param: string): string | undefined {
+  const match = value?.match(new RegExp(`${param}\\s*=\\s*(?:"([^"]+)"|([^;\\s]+))`, 'i'));
+  return match ? (match[1] || match[2]) : undefined;
+}
+
+/**
+ * Convert a binary (latin1) string to text in the given charset
+ */
+function decodeCharset(binary: string, charset = 'utf-8'): string {
+  const bytes = Buffer.from(binary, 'latin1');
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch (e) {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/**
+ * Undo a Content-Transfer-Encoding, returning a binary (latin1) string
+ */
+function decodeTransferEncoding(body: string, encoding = ''): string {
+  switch (encoding.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('latin1');
+    case 'quoted-printable':
+      return body
+        .replace(/=\r?\n/g, '')
+        .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    default:
+      return body;
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded words in a header (e.g. =?UTF-8?Q?...?=)
+ */
+function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([BQbq])\?([^?]*)\?=/g, (_, charset, encoding, text) => {
+      const binary = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64').toString('latin1')
+        : decodeTransferEncoding(text.replace(/_/g, ' '), 'quoted-printable');
+      return decodeCharset(binary, charset);
+    });
+}
+
+/**
+ * Find the first text/html part of a MIME entity, decoded to text
+ */
+function findHtmlPart(headers: Record<string, string>, body: string): string {
+  const contentType = headers['content-type'] || 'text/plain';
+
+  if (/^multipart\//i.test(contentType)) {
+    const boundary = getHeaderParam(contentType, 'boundary');
+    if (!boundary) {
+      return '';
+    }
+
+    const parts = body.split(`--${boundary}`).slice(1);
+    for (const part of parts) {
+      if (part.startsWith('--')) {
+        break; // Closing boundary
+      }
+
+      const separator = part.search(/\r?\n\r?\n/);
+      if (separator < 0) {
+        continue;
+      }
+
+      const partHeaders = parseHeaders(part.substring(0, separator).replace(/^\r?\n/, ''));
+      const partBody = part.substring(separator).replace(/^\r?\n\r?\n/, '');
+      const html = findHtmlPart(partHeaders, partBody);
+      if (html) {
+        return html;
+      }
+    }
+
+    return '';
+  }
+
+  if (/^text\/html/i.test(contentType)) {
+    const binary = decodeTransferEncoding(body, headers['content-transfer-encoding']);
+    return decodeCharset(binary, getHeaderParam(contentType, 'charset'));
+  }
+
+  return '';
+}
+
+/**
+ * Parse a single raw RFC 822 message (as a binary/latin1 string)
+ */
+export function parseEmailMessage(raw: string): EmailMessage {
+  const separator = raw.search(/\r?\n\r?\n/);
+  const headerBlock = separator >= 0 ? raw.substring(0, separator) : raw;
+  const body = separator >= 0 ? raw.substring(separator).replace(/^\r?\n\r?\n/, '') : '';
+
+  const headers = parseHeaders(headerBlock);
+  for (const name of Object.keys(headers)) {
+    headers[name] = decodeHeaderValue(headers[name]);
+  }
+
+  return { headers, html: findHtmlPart(headers, body) };
+}
+
+/**
+ * Split an mbox export into raw messages
+ */
+export function splitMbox(mbox: string): string[] {
+  return mbox
+    .split(/^From .*\r?\n/m)
+    .map(message => message.replace(/^>(>*From )/gm, '$1'))
+    .filter(message => message.trim().length > 0);
+}
+
+/**
+ * Get the alert name from a digest subject ("Google Alert - smart city")
+ */
+export function getAlertNameFromSubject(subject = ''): string {
+  const match = subject.match(/Google Alerts?\s*[-–:]\s*(.+)$/i);
+  return (match ? match[1] : subject).trim();
+}
+
+/**
+ * Parse the articles out of a Google Alerts digest email body
+ */
+export function parseAlertDigest(
+  html: string,
+  details: { alertName: string; date?: string; feedTitle?: string }
+): ArticleInput[] {
+  const $ = cheerio.load(html);
+  const articles: ArticleInput[] = [];
+  const seenLinks = new Set<string>();
+
+  const addArticle = (href: string, title: string, snippet: string) => {
+    const target = unwrapGoogleRedirect(href);
+    if (!/^https?:\/\//i.test(target) || /^https?:\/\/(www\.)?google\.com\//i.test(target)) {
+      return;
+    }
+
+    const key = canonicalizeUrl(target);
+    if (!title || NON_ARTICLE_LINK_TEXT.test(title) || seenLinks.has(key)) {
+      return;
+    }
+    seenLinks.add(key);
+
+    articles.push({
+      alertName: details.alertName,
+      title,
+      link: target,
+      originalLink: href,
+      pubDate: toIsoDate(details.date),
+      guid: '',
+      feedTitle: details.feedTitle || '',
+      snippet,
+    });
+  };
+
+  // Current digests mark each result up as a schema.org Article
+  $('[itemtype*="schema.org/Article"]').each((_, element) => {
+    const item = $(element);
+    const anchor = item.find('a[itemprop="url"], a[href]').first();
+    const title = stripHtml(item.find('[itemprop="name"]').first().html() || anchor.html() || '');
+    const snippet = stripHtml(item.find('[itemprop="description"]').first().html() || '');
+    addArticle(anchor.attr('href') || '', title, snippet);
+  });
+
+  // Older digests: every redirect link with text is a result
+  if (articles.length === 0) {
+    $('a[href*="google.com/url"]').each((_, element) => {
+      const anchor = $(element);
+      const title = stripHtml(anchor.html() || '');
+      const snippet = stripHtml(anchor.closest('td, div').find('div, font').last().html() || '');
+      addArticle(anchor.attr('href') || '', title, snippet === title ? '' : snippet);
+    });
+  }
+
+  return articles;
+}
+
+/**
+ * Read the digests in a .eml file, an mbox export, or a directory of either.
+ * Articles are filed under alertName when given, otherwise under the alert
+ * named in each digest's subject.
+ */
+export async function readEmailDigestMessages(inputPath: string, alertName?: string): Promise<EmailDigest[]> {
+  const stats = await fs.stat(inputPath);
+
+  if (stats.isDirectory()) {
+    const entries = await fs.readdir(inputPath);
+    const files = entries
+      .filter(file => /\.(eml|mbox)$/i.test(file))
+      .sort();
+
+    const results: EmailDigest[] = [];
+    for (const file of files) {
+      results.push(...await readEmailDigestMessages(path.join(inputPath, file), alertName));
+    }
+    return results;
+  }
+
+  const raw = await fs.readFile(inputPath, 'latin1');
+  const messages = /^From /.test(raw) ? splitMbox(raw) : [raw];
+  const digests: EmailDigest[] = [];
+
+  for (const message of messages) {
+    const { headers, html } = parseEmailMessage(message);
+    if (!html) {
+      continue;
+    }
+
+    const subject = headers['subject'] || '';
+    digests.push({
+      // Exports don't always keep Message-ID, so fall back to the message's hash
+      messageId: headers['message-id'] || createHash('sha256').update(message).digest('hex'),
+      articles: parseAlertDigest(html, {
+        alertName: alertName || getAlertNameFromSubject(subject) || 'Email Alert',
+        date: headers['date'],
+        feedTitle: subject,
+      }),
+    });
+  }
+
+  const articleCount = digests.reduce((count, digest) => count + digest.articles.length, 0);
+  console.log(`Read ${articleCount} articles from ${messages.length} email(s) in ${inputPath}`);
+  return digests;
+}
+
+/**
+ * Read articles from a .eml file, an mbox export, or a directory of either,
+ * filed under the alert named in each digest's subject
+ */
+export async function readEmailDigests(inputPath: string): Promise<ArticleInput[]> {
+  const digests = await readEmailDigestMessages(inputPath);
+  return digests.flatMap(digest => digest.articles);
+}
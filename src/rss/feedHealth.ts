@@ -0,0 +1,121 @@
+// src/rss/feedHealth.ts
+import { RssFeedConfig } from './feedSource.js';
+import { FeedState, getFeedState, loadFeedState, releaseFeed, saveFeedState } from './feedState.js';
+
+export type FeedHealthStatus = 'ok' | 'failing' | 'quarantined' | 'never fetched';
+
+// One row of the feed health report
+export interface FeedHealthRow {
+  alertName: string;
+  url: string;
+  status: FeedHealthStatus;
+  consecutiveFailures: number;
+  lastStatus?: number;
+  lastError?: string;
+  lastItems?: number;
+  lastNewItems?: number;
+  averageNewItems?: number;
+  lastNewItemAt?: string;
+}
+
+/**
+ * Work out the overall status of a feed from its stored state
+ */
+function getHealthStatus(state: FeedState | undefined): FeedHealthStatus {
+  if (!state || state.health.recentRuns.length === 0) {
+    return 'never fetched';
+  }
+  if (state.health.quarantined) {
+    return 'quarantined';
+  }
+  return state.health.consecutiveFailures > 0 ? 'failing' : 'ok';
+}
+
+/**
+ * Format the time elapsed since an ISO date as a short string
+ */
+function formatAge(isoDate?: string): string {
+  if (!isoDate) {
+    return 'never';
+  }
+
+  const hours = (Date.now() - new Date(isoDate).getTime()) / (60 * 60 * 1000);
+  if (hours < 1) return '<1h ago';
+  if (hours < 48) return `${Math.floor(hours)}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+/**
+ * Build health rows for the given feeds, most problematic first
+ */
+export async function getFeedHealthReport(feeds: RssFeedConfig[]): Promise<FeedHealthRow[]> {
+  await loadFeedState();
+
+  const statusOrder: Record<FeedHealthStatus, number> = {
+    'quarantined': 0,
+    'failing': 1,
+    'never fetched': 2,
+    'ok': 3,
+  };
+
+  const rows = feeds.map(feed => {
+    const state = getFeedState(feed.url);
+    const runs = state?.health.recentRuns || [];
+    const successfulRuns = runs.filter(run => !run.error);
+
+    return {
+      alertName: feed.alertName,
+      url: feed.url,
+      status: getHealthStatus(state),
+      consecutiveFailures: state?.health.consecutiveFailures || 0,
+      lastStatus: state?.health.lastStatus,
+      lastError: state?.health.lastError,
+      lastItems: runs[0]?.totalItems,
+      lastNewItems: runs[0]?.newItems,
+      averageNewItems: successfulRuns.length > 0
+        ? successfulRuns.reduce((sum, run) => sum + run.newItems, 0) / successfulRuns.length
+        : undefined,
+      lastNewItemAt: state?.health.lastNewItemAt,
+    };
+  });
+
+  return rows.sort((a, b) => statusOrder[a.status] - statusOrder[b.status]);
+}
+
+/**
+ * Format health rows as a plain-text report for the console
+ */
+export function formatFeedHealthReport(rows: FeedHealthRow[]): string {
+  const lines = rows.map(row => [
+    row.status.toUpperCase().padEnd(13),
+    row.alertName.padEnd(20).substring(0, 20),
+    `fails: ${row.consecutiveFailures}`.padEnd(9),
+    `http: ${row.lastStatus ?? '-'}`.padEnd(9),
+    `items: ${row.lastItems ?? '-'}/${row.lastNewItems ?? '-'} new`.padEnd(17),
+    `avg new: ${row.averageNewItems !== undefined ? row.averageNewItems.toFixed(1) : '-'}`.padEnd(13),
+    `last new: ${formatAge(row.lastNewItemAt)}`,
+  ].join('  ') + (row.lastError ? `\n${''.padEnd(15)}${row.lastError}` : ''));
+
+  const counts = rows.reduce<Record<string, number>>((acc, row) => {
+    acc[row.status] = (acc[row.status] || 0) + 1;
+    return acc;
+  }, {});
+
+  const summary = Object.entries(counts)
+    .map(([status, count]) => `${count} ${status}`)
+    .join(', ');
+
+  return [`Feed health (${rows.length} feeds: ${summary})`, '', ...lines].join('\n');
+}
+
+/**
+ * Release quarantined feeds so they are fetched on the next run
+ */
+export async function releaseQuarantinedFeeds(feedUrls: string[]): Promise<string[]> {
+  await loadFeedState();
+
+  const released = feedUrls.filter(url => releaseFeed(url));
+  await saveFeedState();
+
+  return released;
+}
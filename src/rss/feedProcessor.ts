@@ -5,42 +5,15 @@ import { parse } from 'fast-csv';
 import { createReadStream, createWriteStream } from 'node:fs';
 import { format as formatCsv } from '@fast-csv/format';
 import pLimit from 'p-limit';
-import Parser from 'rss-parser';
 import { setTimeout as sleep } from 'node:timers/promises';
 import CONFIG from '../config.js';
 import { ArticleInput } from '../scraper/index.js';
+import { FeedFetchOptions, RssFeedConfig, getFeedDetails, getFeedSource } from './feedSource.js';
+import { isFeedRegistryFile, normalizeFeedEntry, readFeedRegistry } from './feedRegistry.js';
+import { clearPendingFeedPolls, isFeedQuarantined, loadFeedState, saveFeedState } from './feedState.js';
+import './sources/index.js';
 
-// Define the structure for RSS feed configuration
-export interface RssFeedConfig {
-  url: string;
-  alertName: string;
-}
-
-// Define the parser with custom fields
-interface CustomFeed {
-  feedUrl: string;
-  title: string;
-  description?: string;
-  link?: string;
-}
-
-interface CustomItem {
-  title: string;
-  link: string;
-  pubDate?: string;
-  content?: string;
-  contentSnippet?: string;
-  guid?: string;
-}
-
-const parser = new Parser<CustomFeed, CustomItem>({
-  customFields: {
-    item: [
-      ['media:content', 'mediaContent'],
-      ['content:encoded', 'contentEncoded']
-    ]
-  }
-});
+export type { FeedFetchOptions, RssFeedConfig };
 
 /**
  * Ensure CSV-safe values by converting objects to strings
@@ -60,59 +33,126 @@ function ensureCsvSafeValue(value: any): string {
 }
 
 /**
- * Read RSS feed URLs from a CSV file
+ * Read feed configurations from a JSON/YAML registry or a CSV file.
+ * CSV columns: Feed URL (or URL), Alert Name (or Name), and optionally Type
+ * (rss, atom, json or email; defaults to rss), Label, Query, Tags, Region,
+ * Priority, Enabled and Criteria Profile.
  */
 export async function readRssFeeds(filePath: string): Promise<RssFeedConfig[]> {
+  console.log(`Reading RSS feeds from ${filePath}`);
+  
+  // Verify the file exists first
+  try {
+    await fs.access(filePath);
+  } catch (error) {
+    console.error(`File does not exist or is not accessible: ${filePath}`);
+    throw new Error(`Cannot access file: ${filePath}`);
+  }
+  
+  if (isFeedRegistryFile(filePath)) {
+    return readFeedRegistry(filePath);
+  }
+  
   return new Promise((resolve, reject) => {
     const feeds: RssFeedConfig[] = [];
     
     createReadStream(filePath)
+      .on('error', (error) => {
+        console.error(`Error reading file: ${error.message}`);
+        reject(error);
+      })
       .pipe(parse({ headers: true, trim: true }))
-      .on('error', error => reject(error))
+      .on('error', error => {
+        console.error(`Error parsing CSV: ${error.message}`);
+        reject(error);
+      })
       .on('data', (row: any) => {
-        feeds.push({
-          url: row['Feed URL'] || row['URL'] || '',
-          alertName: row['Alert Name'] || row['Name'] || 'Unknown Alert',
-        });
+        try {
+          // Try to handle different column naming conventions
+          const feedUrl = row['Feed URL'] || row['URL'] || '';
+          const alertName = row['Alert Name'] || row['Name'] || '';
+          
+          if (feedUrl) {
+            feeds.push(normalizeFeedEntry({
+              url: feedUrl,
+              alertName: alertName || 'Unknown Alert',
+              type: row['Type'],
+              label: row['Label'],
+              query: row['Query'],
+              tags: row['Tags'],
+              region: row['Region'],
+              priority: row['Priority'],
+              enabled: row['Enabled'],
+              criteriaProfile: row['Criteria Profile'],
+            }));
+          }
+        } catch (error) {
+          console.warn('Error processing row:', error);
+          // Continue processing other rows
+        }
       })
-      .on('end', () => resolve(feeds));
+      .on('end', () => {
+        console.log(`Successfully read ${feeds.length} feeds from CSV`);
+        resolve(feeds);
+      });
   });
 }
 
 /**
- * Fetch and parse a single RSS feed
+ * Fetch a single feed through the source registered for its type
  */
-export async function fetchRssFeed(feedConfig: RssFeedConfig, retryCount = 0): Promise<ArticleInput[]> {
-  try {
-    console.log(`Fetching RSS feed: ${feedConfig.url}`);
-    const feed = await parser.parseURL(feedConfig.url);
-    
-    return feed.items.map(item => ({
-      alertName: feedConfig.alertName,
-      title: item.title || 'Untitled',
-      link: item.link || '',
-    }));
-  } catch (error: any) {
-    console.error(`Error fetching RSS feed ${feedConfig.url}:`, error.message);
-    
-    // Basic retry logic
-    if (retryCount < CONFIG.rss.retries) {
-      console.log(`Retrying (${retryCount + 1}/${CONFIG.rss.retries}): ${feedConfig.url}`);
-      // Wait before retrying with exponential backoff
-      await sleep(Math.pow(2, retryCount) * 1000);
-      return fetchRssFeed(feedConfig, retryCount + 1);
-    }
-    
-    console.warn(`Failed to fetch RSS feed after ${retryCount} retries: ${feedConfig.url}`);
-    return [];
-  }
+export async function fetchRssFeed(
+  feedConfig: RssFeedConfig,
+  options: FeedFetchOptions = {}
+): Promise<ArticleInput[]> {
+  const articles = await getFeedSource(feedConfig.type).fetchArticles(feedConfig, options);
+  const feed = getFeedDetails(feedConfig);
+  
+  return articles.map(article => ({ ...article, feed }));
+}
+
+/**
+ * Attach feed details to articles read back from a CSV, matching on alert name
+ */
+export function attachFeedDetails<T extends ArticleInput>(articles: T[], feeds: RssFeedConfig[]): T[] {
+  const feedsByAlertName = new Map(feeds.map(feed => [feed.alertName, feed]));
+  
+  return articles.map(article => {
+    const feed = feedsByAlertName.get(article.alertName);
+    return feed && !article.feed ? { ...article, feed: getFeedDetails(feed) } : article;
+  });
 }
 
 /**
  * Process multiple RSS feeds with concurrency control
  */
-export async function processRssFeeds(feedsConfig: RssFeedConfig[]): Promise<ArticleInput[]> {
-  console.log(`Starting to process ${feedsConfig.length} RSS feeds...`);
+export async function processRssFeeds(
+  feedsConfig: RssFeedConfig[],
+  options: FeedFetchOptions = {}
+): Promise<ArticleInput[]> {
+  console.log(`Starting to process ${feedsConfig.length} feeds...`);
+  
+  // Load ETag / Last-Modified, seen items and health from previous runs
+  await loadFeedState();
+  clearPendingFeedPolls();
+  
+  // Disabled feeds stay in the registry but are not fetched
+  const disabledCount = feedsConfig.filter(feed => !feed.enabled).length;
+  if (disabledCount > 0) {
+    console.log(`Skipping ${disabledCount} disabled feeds`);
+    feedsConfig = feedsConfig.filter(feed => feed.enabled);
+  }
+  
+  // Fetch higher-priority feeds first
+  feedsConfig = [...feedsConfig].sort((a, b) => b.priority - a.priority);
+  
+  // Report quarantined feeds instead of fetching them
+  const quarantinedFeeds = feedsConfig.filter(feed => isFeedQuarantined(feed.url));
+  if (quarantinedFeeds.length > 0) {
+    console.warn(`Skipping ${quarantinedFeeds.length} quarantined feeds (see \`feeds health\`):`);
+    quarantinedFeeds.forEach(feed => console.warn(`  - ${feed.alertName}: ${feed.url}`));
+    feedsConfig = feedsConfig.filter(feed => !isFeedQuarantined(feed.url));
+  }
   
   // Create concurrency limiter
   const limit = pLimit(CONFIG.rss.maxConcurrent);
@@ -120,19 +160,21 @@ export async function processRssFeeds(feedsConfig: RssFeedConfig[]): Promise<Art
   // Queue all fetching tasks with defined concurrency
   const fetchPromises = feedsConfig.map((feedConfig, index) => 
     limit(async () => {
-      console.log(`Processing feed ${index + 1}/${feedsConfig.length}: ${feedConfig.alertName}`);
+      console.log(`Processing feed ${index + 1}/${feedsConfig.length}: ${feedConfig.label || feedConfig.alertName}`);
       
       // Add delay between requests if configured
       if (index > 0 && CONFIG.rss.requestDelay > 0) {
         await sleep(CONFIG.rss.requestDelay);
       }
       
-      return fetchRssFeed(feedConfig);
+      return fetchRssFeed(feedConfig, options);
     })
   );
   
-  // Wait for all fetching tasks to complete
+  // Wait for all fetching tasks to complete. Only health is saved here; the
+  // caller commits seen items once it has stored them (commitFeedPolls)
   const results = await Promise.all(fetchPromises);
+  await saveFeedState();
   
   // Flatten the results
   const articles = results.flat();
@@ -162,7 +204,12 @@ export async function exportArticlesToCsv(
         csvStream.write({
           'Alert Name': ensureCsvSafeValue(article.alertName),
           'Title': ensureCsvSafeValue(article.title),
-          'Link': ensureCsvSafeValue(article.link)
+          'Link': ensureCsvSafeValue(article.link),
+          'Original Link': ensureCsvSafeValue(article.originalLink),
+          'Published': ensureCsvSafeValue(article.pubDate),
+          'GUID': ensureCsvSafeValue(article.guid),
+          'Feed Title': ensureCsvSafeValue(article.feedTitle),
+          'Snippet': ensureCsvSafeValue(article.snippet)
         });
       });
       
@@ -182,7 +229,8 @@ export async function exportArticlesToCsv(
  */
 export async function processAndExportRssFeeds(
   feedsFilePath: string,
-  outputPath?: string
+  outputPath?: string,
+  options: FeedFetchOptions = {}
 ): Promise<string> {
   const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
   const actualOutputPath = outputPath || join(
@@ -198,7 +246,7 @@ export async function processAndExportRssFeeds(
   console.log(`Read ${feedsConfig.length} RSS feed configurations`);
   
   // Process feeds
-  const articles = await processRssFeeds(feedsConfig);
+  const articles = await processRssFeeds(feedsConfig, options);
   
   // Export to CSV
   const exportedPath = await exportArticlesToCsv(articles, actualOutputPath);
@@ -0,0 +1,209 @@
+// src/rss/feedRegistry.ts
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { parseString } from 'fast-csv';
+import YAML from 'yaml';
+import { RssFeedConfig, parseFeedSourceType } from './feedSource.js';
+import { appendToCSV, writeToCSV } from '../utils/manualCsvWriter.js';
+
+// Per-feed scraper settings that override CONFIG.scraper
+const FeedScraperOverridesSchema = z.object({
+  timeout: z.coerce.number().int().positive().optional(),
+  retries: z.coerce.number().int().nonnegative().optional(),
+  skip: z.boolean().optional(),
+});
+
+// Comma/semicolon separated strings (as in CSV cells) are accepted for tags
+const TagsSchema = z.preprocess(
+  value => typeof value === 'string'
+    ? value.split(/[;,]/).map(tag => tag.trim()).filter(Boolean)
+    : value,
+  z.array(z.string()).default([])
+);
+
+// Booleans may come from CSV cells as strings
+const BooleanSchema = z.preprocess(
+  value => typeof value === 'string' && value.trim() !== ''
+    ? !/^(false|no|0|off)$/i.test(value.trim())
+    : value,
+  z.boolean().default(true)
+);
+
+// One feed in the registry. `alertName` stays the stable key used in article CSVs.
+const FeedEntrySchema = z.object({
+  url: z.string().min(1),
+  alertName: z.coerce.string().min(1),
+  type: z.string().optional().transform(value => parseFeedSourceType(value)),
+  label: z.string().optional(),
+  query: z.string().optional(),
+  tags: TagsSchema,
+  region: z.string().optional(),
+  priority: z.coerce.number().int().default(0),
+  enabled: BooleanSchema,
+  criteriaProfile: z.string().optional(),
+  scraper: FeedScraperOverridesSchema.optional(),
+});
+
+// Registry files may be a bare list or { feeds: [...] }
+const FeedRegistrySchema = z.union([
+  z.array(z.unknown()),
+  z.object({ feeds: z.array(z.unknown()) }).transform(registry => registry.feeds),
+]);
+
+/**
+ * Check whether a path is a JSON or YAML feed registry rather than a CSV
+ */
+export function isFeedRegistryFile(filePath: string): boolean {
+  return ['.json', '.yaml', '.yml'].includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Validate one raw feed entry, dropping empty strings (as produced by blank CSV cells)
+ */
+export function normalizeFeedEntry(raw: Record<string, unknown>): RssFeedConfig {
+  const cleaned = Object.fromEntries(
+    Object.entries(raw).filter(([, value]) => value !== undefined && value !== '')
+  );
+
+  const entry = FeedEntrySchema.parse(cleaned);
+  return {
+    ...entry,
+    label: entry.label || undefined,
+    query: entry.query || undefined,
+    region: entry.region || undefined,
+    criteriaProfile: entry.criteriaProfile || undefined,
+  };
+}
+
+/**
+ * Read a JSON or YAML feed registry. Invalid entries are reported and skipped.
+ */
+export async function readFeedRegistry(filePath: string): Promise<RssFeedConfig[]> {
+  const text = await fs.readFile(filePath, 'utf8');
+  const data = path.extname(filePath).toLowerCase() === '.json'
+    ? JSON.parse(text)
+    : YAML.parse(text);
+
+  const entries = FeedRegistrySchema.parse(data);
+  const feeds: RssFeedConfig[] = [];
+
+  entries.forEach((entry, index) => {
+    try {
+      feeds.push(normalizeFeedEntry(entry as Record<string, unknown>));
+    } catch (error: any) {
+      const message = error instanceof z.ZodError
+        ? error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+        : error.message;
+      console.warn(`Skipping invalid feed entry ${index + 1} in ${filePath}: ${message}`);
+    }
+  });
+
+  console.log(`Successfully read ${feeds.length} feeds from ${filePath}`);
+  return feeds;
+}
+
+// Columns written to new CSV feed lists
+const CSV_HEADERS = ['Feed URL', 'Alert Name', 'Type', 'Label', 'Query', 'Tags', 'Region', 'Priority', 'Enabled', 'Criteria Profile'];
+
+// Older column names the reader also accepts
+const CSV_HEADER_ALIASES: Record<string, string> = { 'Feed URL': 'URL', 'Alert Name': 'Name' };
+
+// Values a feed gets when its CSV cell is blank
+const CSV_BLANK_VALUES: Record<string, unknown> = { 'Type': 'rss', 'Priority': 0, 'Enabled': true };
+
+/**
+ * Convert a feed to a CSV row, keyed by every column name the reader accepts
+ */
+function toCsvRow(feed: RssFeedConfig): Record<string, unknown> {
+  return {
+    'Feed URL': feed.url,
+    'URL': feed.url,
+    'Alert Name': feed.alertName,
+    'Name': feed.alertName,
+    'Type': feed.type,
+    'Label': feed.label || '',
+    'Query': feed.query || '',
+    'Tags': feed.tags.join('; '),
+    'Region': feed.region || '',
+    'Priority': feed.priority,
+    'Enabled': feed.enabled,
+    'Criteria Profile': feed.criteriaProfile || '',
+  };
+}
+
+/**
+ * Write feeds to a registry file, as JSON/YAML or as CSV depending on the extension.
+ * CSV has no column for scraper overrides, so those are only kept in JSON/YAML.
+ */
+export async function writeFeedRegistry(feeds: RssFeedConfig[], filePath: string): Promise<string> {
+  if (!isFeedRegistryFile(filePath)) {
+    return writeToCSV(feeds.map(toCsvRow), CSV_HEADERS, filePath);
+  }
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  const registry = { feeds };
+  const text = path.extname(filePath).toLowerCase() === '.json'
+    ? JSON.stringify(registry, null, 2)
+    : YAML.stringify(registry);
+
+  await fs.writeFile(filePath, text, 'utf8');
+  return filePath;
+}
+
+/**
+ * Read the header row of a CSV file
+ */
+async function readCsvHeaders(filePath: string): Promise<string[]> {
+  const text = await fs.readFile(filePath, 'utf8');
+  return new Promise((resolve, reject) => {
+    let headers: string[] = [];
+    parseString(text, { maxRows: 1, trim: true })
+      .on('error', reject)
+      .on('data', (row: string[]) => { headers = row; })
+      .on('end', () => resolve(headers));
+  });
+}
+
+/**
+ * Add feeds to an existing registry file without rewriting the entries
+ * already in it, so entries that failed validation, extra CSV columns and
+ * fields this version doesn't know are all kept. CSV rows are appended under
+ * the file's own header; feed settings it has no column for are reported
+ * and left out.
+ */
+export async function appendToFeedRegistry(feeds: RssFeedConfig[], filePath: string): Promise<string> {
+  if (!isFeedRegistryFile(filePath)) {
+    const headers = await readCsvHeaders(filePath);
+    const rows = feeds.map(toCsvRow);
+
+    const missingColumns = CSV_HEADERS
+      .filter(header => !headers.includes(header) && !headers.includes(CSV_HEADER_ALIASES[header]))
+      .filter(header => rows.some(row => row[header] !== '' && row[header] !== CSV_BLANK_VALUES[header]));
+    if (missingColumns.length > 0) {
+      console.warn(`${filePath} has no ${missingColumns.join(', ')} column(s); those settings of the imported feeds were not written`);
+    }
+
+    return appendToCSV(rows, headers, filePath);
+  }
+
+  const text = await fs.readFile(filePath, 'utf8');
+
+  if (path.extname(filePath).toLowerCase() === '.json') {
+    const data = JSON.parse(text);
+    (Array.isArray(data) ? data : data.feeds).push(...feeds);
+    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf8');
+    return filePath;
+  }
+
+  // Edit the YAML document in place so its comments survive
+  const document = YAML.parseDocument(text);
+  const list = YAML.isSeq(document.contents) ? document.contents : document.get('feeds');
+  if (!YAML.isSeq(list)) {
+    throw new Error(`Cannot find the list of feeds in ${filePath}`);
+  }
+  feeds.forEach(feed => list.add(document.createNode(feed)));
+  await fs.writeFile(filePath, document.toString(), 'utf8');
+  return filePath;
+}
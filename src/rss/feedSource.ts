@@ -0,0 +1,117 @@
+// src/rss/feedSource.ts
+import { ArticleInput } from '../scraper/index.js';
+
+// Kinds of feed the pipeline can ingest, chosen by the Type column of the feeds file
+export type FeedSourceType = 'rss' | 'atom' | 'json' | 'email';
+
+// Per-feed overrides for the article scraper
+export interface FeedScraperOverrides {
+  timeout?: number;
+  retries?: number;
+  skip?: boolean; // Don't scrape this feed's articles at all
+}
+
+// Descriptive and routing settings for a feed, carried onto its articles
+export interface FeedDetails {
+  label?: string; // Human-readable name for reports
+  query?: string; // The Google Alerts query text
+  tags: string[];
+  region?: string;
+  priority: number;
+  criteriaProfile?: string; // Name of a criteria file under criteria/
+  scraper?: FeedScraperOverrides;
+}
+
+// Define the structure for RSS feed configuration
+export interface RssFeedConfig extends FeedDetails {
+  url: string; // Feed URL, or a file/directory path for email digests
+  alertName: string;
+  type: FeedSourceType;
+  enabled: boolean;
+}
+
+/**
+ * Get the details of a feed that are carried onto its articles
+ */
+export function getFeedDetails(feed: RssFeedConfig): FeedDetails {
+  return {
+    label: feed.label,
+    query: feed.query,
+    tags: feed.tags,
+    region: feed.region,
+    priority: feed.priority,
+    criteriaProfile: feed.criteriaProfile,
+    scraper: feed.scraper,
+  };
+}
+
+export interface FeedFetchOptions {
+  fullRefresh?: boolean; // Ignore stored ETag / Last-Modified and seen items
+}
+
+// A single entry parsed from a feed document, before it becomes an ArticleInput
+export interface ParsedFeedItem {
+  title?: string;
+  link?: string;
+  guid?: string;
+  pubDate?: string;
+  snippet?: string; // May contain HTML
+}
+
+export interface ParsedFeed {
+  title?: string;
+  items: ParsedFeedItem[];
+}
+
+/**
+ * A channel that turns one configured feed into articles for the analyzer
+ */
+export interface FeedSource {
+  readonly type: FeedSourceType;
+  fetchArticles(feed: RssFeedConfig, options?: FeedFetchOptions): Promise<ArticleInput[]>;
+}
+
+const feedSources = new Map<FeedSourceType, FeedSource>();
+
+/**
+ * Register a source implementation for a feed type
+ */
+export function registerFeedSource(source: FeedSource): void {
+  feedSources.set(source.type, source);
+}
+
+/**
+ * Get the source implementation for a feed type
+ */
+export function getFeedSource(type: FeedSourceType): FeedSource {
+  const source = feedSources.get(type);
+  if (!source) {
+    throw new Error(`No feed source registered for type: ${type}`);
+  }
+  return source;
+}
+
+/**
+ * Parse a feed type from the feeds file, defaulting to RSS
+ */
+export function parseFeedSourceType(value?: string): FeedSourceType {
+  const normalized = (value || '').trim().toLowerCase();
+
+  switch (normalized) {
+    case '':
+    case 'rss':
+    case 'rss2':
+      return 'rss';
+    case 'atom':
+      return 'atom';
+    case 'json':
+    case 'jsonfeed':
+      return 'json';
+    case 'email':
+    case 'eml':
+    case 'mbox':
+      return 'email';
+    default:
+      throw new Error(`Unsupported feed type: ${value}`);
+  }
+}
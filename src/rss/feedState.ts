@@ -0,0 +1,270 @@
+// src/rss/feedState.ts
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import CONFIG from '../config.js';
+import { ArticleInput } from '../scraper/index.js';
+import { canonicalizeUrl } from '../utils/urlUtils.js';
+
+// Keep only the most recent item ids per feed so the state file stays small
+// (but always every id from the latest fetch)
+const MAX_SEEN_IDS = 200;
+
+// Number of recent runs kept in each feed's history
+const MAX_RUN_HISTORY = 10;
+
+// Outcome of fetching a feed in a single run
+export interface FeedRunRecord {
+  at: string;
+  status?: number;
+  totalItems: number;
+  newItems: number;
+  error?: string;
+}
+
+// Health of a feed across runs
+export interface FeedHealth {
+  consecutiveFailures: number;
+  lastStatus?: number;
+  lastError?: string;
+  lastAttempt?: string;
+  lastNewItemAt?: string;
+  quarantined: boolean;
+  quarantinedAt?: string;
+  recentRuns: FeedRunRecord[];
+}
+
+// Polling state remembered for a single feed between runs
+export interface FeedState {
+  etag?: string;
+  lastModified?: string;
+  lastSuccess?: string;
+  lastSeenIds: string[];
+  health: FeedHealth;
+}
+
+// A feed item and the links of the articles it yielded, so a run can say
+// which items it did not finish
+export interface FeedItemRef {
+  id: string;
+  links: string[];
+}
+
+// Validators and items from a fetch, held back until the run has
+// persisted the items
+interface PendingPoll {
+  etag?: string;
+  lastModified?: string;
+  items: FeedItemRef[];
+}
+
+// Set up feed state file path
+const feedStatePath = path.join(CONFIG.outputDir, 'feed_state.json');
+
+let feedStates: Record<string, FeedState> = {};
+let pendingPolls: Record<string, PendingPoll> = {};
+let loaded = false;
+
+/**
+ * Create an empty state record for a feed
+ */
+function createFeedState(): FeedState {
+  return {
+    lastSeenIds: [],
+    health: {
+      consecutiveFailures: 0,
+      quarantined: false,
+      recentRuns: [],
+    },
+  };
+}
+
+/**
+ * Get the state record for a feed, creating it if needed
+ */
+function ensureFeedState(feedUrl: string): FeedState {
+  const state = feedStates[feedUrl] || createFeedState();
+
+  // State files written before health tracking have no health record
+  state.health = { ...createFeedState().health, ...state.health };
+  feedStates[feedUrl] = state;
+
+  return state;
+}
+
+/**
+ * Add a run to a feed's history, keeping only the most recent runs
+ */
+function addRunRecord(health: FeedHealth, record: FeedRunRecord): void {
+  health.recentRuns = [record, ...health.recentRuns].slice(0, MAX_RUN_HISTORY);
+}
+
+/**
+ * Load per-feed state from disk (once per process)
+ */
+export async function loadFeedState(): Promise<void> {
+  if (loaded) {
+    return;
+  }
+
+  try {
+    const data = await fs.readFile(feedStatePath, 'utf-8');
+    feedStates = JSON.parse(data) as Record<string, FeedState>;
+  } catch (error) {
+    console.log('No existing feed state found, all feeds will be fetched in full');
+    feedStates = {};
+  }
+
+  loaded = true;
+}
+
+/**
+ * Save per-feed state to disk
+ */
+export async function saveFeedState(): Promise<void> {
+  try {
+    await fs.mkdir(path.dirname(feedStatePath), { recursive: true });
+    await fs.writeFile(feedStatePath, JSON.stringify(feedStates, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('Error saving feed state:', error);
+  }
+}
+
+/**
+ * Get the stored state for a feed
+ */
+export function getFeedState(feedUrl: string): FeedState | undefined {
+  return feedStates[feedUrl] ? ensureFeedState(feedUrl) : undefined;
+}
+
+/**
+ * Check whether a feed has been quarantined after repeated failures
+ */
+export function isFeedQuarantined(feedUrl: string): boolean {
+  return Boolean(feedStates[feedUrl]?.health?.quarantined);
+}
+
+/**
+ * Record a successful fetch (including 304 Not Modified). The feed's health
+ * is updated now; its ETag / Last-Modified and item ids only once
+ * commitFeedPolls() is called, so a run that fails before its items are
+ * saved sees them again next time.
+ */
+export function recordFeedSuccess(
+  feedUrl: string,
+  update: {
+    status?: number; // Unset for sources that aren't fetched over HTTP
+    etag?: string;
+    lastModified?: string;
+    items?: FeedItemRef[];
+    totalItems: number;
+    newItems: number;
+  }
+): void {
+  const state = ensureFeedState(feedUrl);
+  const now = new Date().toISOString();
+
+  if (update.etag || update.lastModified || update.items?.length) {
+    pendingPolls[feedUrl] = {
+      etag: update.etag,
+      lastModified: update.lastModified,
+      items: update.items || [],
+    };
+  }
+
+  state.lastSuccess = now;
+
+  state.health.consecutiveFailures = 0;
+  state.health.lastStatus = update.status;
+  state.health.lastError = undefined;
+  state.health.lastAttempt = now;
+  if (update.newItems > 0) {
+    state.health.lastNewItemAt = now;
+  }
+  addRunRecord(state.health, {
+    at: now,
+    status: update.status,
+    totalItems: update.totalItems,
+    newItems: update.newItems,
+  });
+}
+
+/**
+ * Forget fetches that were never committed, before fetching the feeds again
+ */
+export function clearPendingFeedPolls(): void {
+  pendingPolls = {};
+}
+
+/**
+ * Remember the validators and item ids of this run's fetches once their
+ * items have been saved, so the next run skips them. New ids are kept ahead
+ * of older ones. Items that yielded one of the unfinished articles (matched
+ * by guid or canonical link) are not marked seen, and their feed keeps its
+ * old validators so the next poll fetches the feed in full again.
+ */
+export async function commitFeedPolls(unfinished: ArticleInput[] = []): Promise<void> {
+  const unfinishedKeys = new Set(unfinished.flatMap(article => [
+    canonicalizeUrl(article.link),
+    ...(article.guid ? [article.guid] : []),
+  ]));
+  const isUnfinished = (item: FeedItemRef) =>
+    unfinishedKeys.has(item.id) || item.links.some(link => unfinishedKeys.has(canonicalizeUrl(link)));
+
+  Object.entries(pendingPolls).forEach(([feedUrl, poll]) => {
+    const state = ensureFeedState(feedUrl);
+    const doneIds = poll.items.filter(item => item.id && !isUnfinished(item)).map(item => item.id);
+    const heldBack = poll.items.filter(isUnfinished).length;
+
+    if (heldBack === 0) {
+      state.etag = poll.etag || state.etag;
+      state.lastModified = poll.lastModified || state.lastModified;
+    } else {
+      console.log(`Not marking ${heldBack} items from ${feedUrl} as seen until they have been analyzed`);
+    }
+    state.lastSeenIds = [...new Set([...doneIds, ...state.lastSeenIds])]
+      .slice(0, Math.max(MAX_SEEN_IDS, doneIds.length));
+  });
+
+  pendingPolls = {};
+  await saveFeedState();
+}
+
+/**
+ * Record a failed fetch (after retries) and quarantine the feed once it
+ * has failed CONFIG.rss.quarantineAfterFailures runs in a row.
+ * Returns true if the feed was quarantined by this failure.
+ */
+export function recordFeedFailure(feedUrl: string, error: string, status?: number): boolean {
+  const state = ensureFeedState(feedUrl);
+  const now = new Date().toISOString();
+  const health = state.health;
+
+  health.consecutiveFailures += 1;
+  health.lastStatus = status;
+  health.lastError = error;
+  health.lastAttempt = now;
+  addRunRecord(health, { at: now, status, totalItems: 0, newItems: 0, error });
+
+  if (!health.quarantined && health.consecutiveFailures >= CONFIG.rss.quarantineAfterFailures) {
+    health.quarantined = true;
+    health.quarantinedAt = now;
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Take a feed out of quarantine so it is fetched again on the next run
+ */
+export function releaseFeed(feedUrl: string): boolean {
+  const state = feedStates[feedUrl];
+  if (!state?.health?.quarantined) {
+    return false;
+  }
+
+  state.health.quarantined = false;
+  state.health.quarantinedAt = undefined;
+  state.health.consecutiveFailures = 0;
+  return true;
+}
@@ -0,0 +1,213 @@
+// src/rss/opml.ts
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import * as cheerio from 'cheerio';
+import { RssFeedConfig } from './feedSource.js';
+import { appendToFeedRegistry, normalizeFeedEntry, writeFeedRegistry } from './feedRegistry.js';
+import { readRssFeeds } from './feedProcessor.js';
+import { normalizeUrl } from '../utils/urlUtils.js';
+
+// Result of merging an OPML file into an existing feed list
+export interface OpmlImportResult {
+  added: RssFeedConfig[];
+  duplicates: RssFeedConfig[]; // Outlines whose feed URL is already in the list
+  total: number;
+}
+
+/**
+ * Escape a value for use in an XML attribute
+ */
+function escapeXmlAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Split an OPML category attribute ("/News/Tech,Local") into tags
+ */
+function parseCategoryAttribute(value = ''): string[] {
+  return value
+    .split(',')
+    .flatMap(category => category.split('/'))
+    .map(tag => tag.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Guess the feed type of an OPML outline. Readers only record "rss",
+ * but Google Alerts feeds are always Atom.
+ */
+function getOutlineFeedType(feedType: string | undefined, xmlUrl: string): string {
+  if (feedType) {
+    return feedType;
+  }
+  return /google\.com\/alerts\/feeds\//i.test(xmlUrl) ? 'atom' : 'rss';
+}
+
+/**
+ * Parse the feed outlines of an OPML document. Folder outlines (and the
+ * category attribute) become tags on the feeds they contain.
+ */
+export function parseOpml(xml: string): RssFeedConfig[] {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const feeds: RssFeedConfig[] = [];
+
+  const visit = (outline: cheerio.Cheerio<any>, folders: string[]) => {
+    const xmlUrl = (outline.attr('xmlUrl') || outline.attr('xmlurl') || '').trim();
+    const text = (outline.attr('text') || outline.attr('title') || '').trim();
+
+    if (!xmlUrl) {
+      // A folder: its name applies to every outline inside it
+      const childFolders = text ? [...folders, text] : folders;
+      outline.children('outline').each((_, child) => visit($(child), childFolders));
+      return;
+    }
+
+    const tags = [...folders, ...parseCategoryAttribute(outline.attr('category'))];
+    const alertName = outline.attr('alertName') || text || xmlUrl;
+
+    try {
+      feeds.push(normalizeFeedEntry({
+        url: xmlUrl,
+        alertName,
+        type: getOutlineFeedType(outline.attr('feedType'), xmlUrl),
+        label: text !== alertName ? text : undefined,
+        query: outline.attr('query'),
+        tags: [...new Set(tags)],
+        region: outline.attr('region'),
+        priority: outline.attr('priority'),
+        enabled: outline.attr('enabled'),
+        criteriaProfile: outline.attr('criteriaProfile'),
+      }));
+    } catch (error: any) {
+      console.warn(`Skipping OPML outline "${text || xmlUrl}": ${error.message}`);
+    }
+  };
+
+  $('opml > body > outline').each((_, outline) => visit($(outline), []));
+  return feeds;
+}
+
+/**
+ * Build an OPML document for a feed list. The first tag of each feed becomes
+ * its folder and all tags are kept in the category attribute; registry-only
+ * fields are written as extra attributes so a round trip loses nothing.
+ */
+export function buildOpml(feeds: RssFeedConfig[], title = 'Google Alerts feeds'): string {
+  const renderOutline = (feed: RssFeedConfig, indent: string): string => {
+    const attributes: Record<string, string | undefined> = {
+      text: feed.label || feed.alertName,
+      title: feed.label || feed.alertName,
+      type: 'rss',
+      xmlUrl: feed.url,
+      category: feed.tags.length > 0 ? feed.tags.join(',') : undefined,
+      alertName: feed.alertName,
+      feedType: feed.type,
+      query: feed.query,
+      region: feed.region,
+      priority: feed.priority !== 0 ? String(feed.priority) : undefined,
+      enabled: feed.enabled ? undefined : 'false',
+      criteriaProfile: feed.criteriaProfile,
+    };
+
+    const rendered = Object.entries(attributes)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([name, value]) => `${name}="${escapeXmlAttribute(value as string)}"`)
+      .join(' ');
+
+    return `${indent}<outline ${rendered}/>`;
+  };
+
+  // Group feeds into folders by their first tag, keeping untagged feeds at the top level
+  const folders = new Map<string, RssFeedConfig[]>();
+  const lines: string[] = [];
+
+  for (const feed of feeds) {
+    const folder = feed.tags[0];
+    if (!folder) {
+      lines.push(renderOutline(feed, '    '));
+      continue;
+    }
+    folders.set(folder, [...(folders.get(folder) || []), feed]);
+  }
+
+  for (const [folder, folderFeeds] of folders) {
+    lines.push(`    <outline text="${escapeXmlAttribute(folder)}" title="${escapeXmlAttribute(folder)}">`);
+    lines.push(...folderFeeds.map(feed => renderOutline(feed, '      ')));
+    lines.push('    </outline>');
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXmlAttribute(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    ...lines,
+    '  </body>',
+    '</opml>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Import the feeds of an OPML file into a feed list (CSV, JSON or YAML),
+ * creating the list if it doesn't exist. New feeds are added after the
+ * entries already in the list, which are left as they are. Feeds whose URL
+ * is already listed are reported as duplicates.
+ */
+export async function importOpmlFeeds(opmlPath: string, feedsFilePath: string): Promise<OpmlImportResult> {
+  const imported = parseOpml(await fs.readFile(opmlPath, 'utf8'));
+
+  const listExists = await fs.access(feedsFilePath).then(() => true, () => false);
+  const existing = listExists ? await readRssFeeds(feedsFilePath) : [];
+  if (!listExists) {
+    console.log(`Creating new feed list: ${feedsFilePath}`);
+  }
+
+  const knownUrls = new Set(existing.map(feed => normalizeUrl(feed.url)));
+  const knownAlertNames = new Set(existing.map(feed => feed.alertName));
+  const added: RssFeedConfig[] = [];
+  const duplicates: RssFeedConfig[] = [];
+
+  for (const feed of imported) {
+    const key = normalizeUrl(feed.url);
+    if (knownUrls.has(key)) {
+      duplicates.push(feed);
+      continue;
+    }
+
+    // Alert names key articles back to their feed, so they must stay unique
+    let alertName = feed.alertName;
+    for (let suffix = 2; knownAlertNames.has(alertName); suffix++) {
+      alertName = `${feed.alertName} (${suffix})`;
+    }
+
+    knownUrls.add(key);
+    knownAlertNames.add(alertName);
+    added.push({ ...feed, alertName });
+  }
+
+  if (added.length > 0) {
+    await (listExists ? appendToFeedRegistry(added, feedsFilePath) : writeFeedRegistry(added, feedsFilePath));
+  }
+
+  return { added, duplicates, total: existing.length + added.length };
+}
+
+/**
+ * Export a feed list (CSV, JSON or YAML) to an OPML file
+ */
+export async function exportOpmlFeeds(feedsFilePath: string, opmlPath: string): Promise<string> {
+  const feeds = await readRssFeeds(feedsFilePath);
+
+  await fs.mkdir(path.dirname(opmlPath), { recursive: true });
+  await fs.writeFile(opmlPath, buildOpml(feeds), 'utf8');
+
+  return opmlPath;
+}
@@ -0,0 +1,44 @@
+// src/rss/sources/atomSource.ts
+import Parser from 'rss-parser';
+import { ParsedFeed } from '../feedSource.js';
+import { createHttpFeedSource } from './httpFeedSource.js';
+
+interface AtomFeed {
+  title?: string;
+}
+
+interface AtomItem {
+  id?: string;
+  title?: string;
+  link?: string;
+  isoDate?: string;
+  pubDate?: string;
+  content?: string;
+  summary?: string;
+}
+
+const parser = new Parser<AtomFeed, AtomItem>();
+
+/**
+ * Parse an Atom document (the format Google Alerts feeds use)
+ */
+async function parseAtom(body: string): Promise<ParsedFeed> {
+  const feed = await parser.parseString(body);
+
+  return {
+    title: feed.title,
+    items: feed.items.map(item => ({
+      title: item.title,
+      link: item.link,
+      guid: item.id,
+      pubDate: item.isoDate || item.pubDate,
+      snippet: item.content || item.summary,
+    })),
+  };
+}
+
+export const atomSource = createHttpFeedSource(
+  'atom',
+  'application/atom+xml, application/xml;q=0.9, */*;q=0.8',
+  parseAtom
+);
@@ -0,0 +1,47 @@
+// src/rss/sources/emailSource.ts
+import CONFIG from '../../config.js';
+import { FeedSource } from '../feedSource.js';
+import { readEmailDigestMessages } from '../emailDigest.js';
+import { getFeedState, recordFeedFailure, recordFeedSuccess } from '../feedState.js';
+
+/**
+ * Reads Google Alerts email digests from a .eml file, an mbox export or a
+ * directory of them. The feed URL column holds the path. Digests are
+ * remembered by Message-ID, so importing the same mbox again only yields
+ * the emails added since.
+ */
+export const emailSource: FeedSource = {
+  type: 'email',
+  async fetchArticles(feed, options = {}) {
+    try {
+      const state = options.fullRefresh ? undefined : getFeedState(feed.url);
+      const digests = await readEmailDigestMessages(feed.url, feed.alertName);
+      const seenIds = new Set(state?.lastSeenIds || []);
+      const newDigests = digests.filter(digest => !seenIds.has(digest.messageId));
+      const articles = newDigests.flatMap(digest => digest.articles);
+
+      recordFeedSuccess(feed.url, {
+        items: digests.map(digest => ({
+          id: digest.messageId,
+          links: digest.articles.map(article => article.link),
+        })),
+        totalItems: digests.reduce((count, digest) => count + digest.articles.length, 0),
+        newItems: articles.length,
+      });
+
+      if (newDigests.length < digests.length) {
+        console.log(`Skipping ${digests.length - newDigests.length} previously imported emails from ${feed.url}`);
+      }
+
+      return articles;
+    } catch (error: any) {
+      console.error(`Error reading email digests from ${feed.url}:`, error.message);
+
+      const quarantined = recordFeedFailure(feed.url, error.message);
+      if (quarantined) {
+        console.warn(`Feed "${feed.alertName}" quarantined after ${CONFIG.rss.quarantineAfterFailures} consecutive failed runs: ${feed.url}`);
+      }
+      return [];
+    }
+  },
+};
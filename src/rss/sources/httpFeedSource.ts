@@ -0,0 +1,154 @@
+// src/rss/sources/httpFeedSource.ts
+import { setTimeout as sleep } from 'node:timers/promises';
+import CONFIG from '../../config.js';
+import { ArticleInput } from '../../scraper/index.js';
+import { unwrapGoogleRedirect } from '../../utils/urlUtils.js';
+import { cachedFetch } from '../../utils/httpCache.js';
+import { stripHtml, toIsoDate } from '../../utils/textUtils.js';
+import { FeedFetchOptions, FeedSource, FeedSourceType, ParsedFeed, RssFeedConfig } from '../feedSource.js';
+import { FeedState, getFeedState, recordFeedFailure, recordFeedSuccess } from '../feedState.js';
+
+/**
+ * Error raised for a feed request, keeping the HTTP status when there was one
+ */
+class FeedFetchError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'FeedFetchError';
+  }
+}
+
+/**
+ * Get the publisher link for a feed item's link
+ */
+function getArticleLink(itemLink: string | undefined): string {
+  return unwrapGoogleRedirect((itemLink || '').trim());
+}
+
+/**
+ * Fetch a feed body with conditional request headers from the stored state.
+ * Returns null when the server answers 304 Not Modified.
+ */
+async function fetchFeedBody(
+  feedConfig: RssFeedConfig,
+  accept: string,
+  state: FeedState | undefined
+): Promise<{ status: number; body: string; etag?: string; lastModified?: string } | null> {
+  const headers: Record<string, string> = {
+    'User-Agent': 'rss-content-analyzer/1.0',
+    'Accept': accept,
+  };
+
+  if (state?.etag) {
+    headers['If-None-Match'] = state.etag;
+  }
+  if (state?.lastModified) {
+    headers['If-Modified-Since'] = state.lastModified;
+  }
+
+  const response = await cachedFetch(feedConfig.url, {
+    headers,
+    signal: AbortSignal.timeout(CONFIG.rss.requestTimeout),
+  }, { ttlMs: CONFIG.cache.feedTtlMinutes * 60 * 1000 });
+
+  if (response.status === 304) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new FeedFetchError(`HTTP error! Status: ${response.status}`, response.status);
+  }
+
+  return {
+    status: response.status,
+    body: await response.text(),
+    etag: response.headers.get('etag') || undefined,
+    lastModified: response.headers.get('last-modified') || undefined,
+  };
+}
+
+/**
+ * Create a feed source that polls a URL over HTTP and parses the body with
+ * the given format parser. Conditional requests, seen-item filtering,
+ * retries and health tracking are shared by every HTTP feed format.
+ */
+export function createHttpFeedSource(
+  type: FeedSourceType,
+  accept: string,
+  parseFeed: (body: string) => Promise<ParsedFeed>
+): FeedSource {
+  async function fetchArticles(
+    feedConfig: RssFeedConfig,
+    options: FeedFetchOptions = {},
+    retryCount = 0
+  ): Promise<ArticleInput[]> {
+    try {
+      console.log(`Fetching ${type} feed: ${feedConfig.url}`);
+      const state = options.fullRefresh ? undefined : getFeedState(feedConfig.url);
+      const result = await fetchFeedBody(feedConfig, accept, state);
+
+      if (!result) {
+        console.log(`Feed not modified since last fetch: ${feedConfig.url}`);
+        recordFeedSuccess(feedConfig.url, { status: 304, totalItems: 0, newItems: 0 });
+        return [];
+      }
+
+      const feed = await parseFeed(result.body);
+      const seenIds = new Set(state?.lastSeenIds || []);
+      const itemIds = feed.items.map(item => item.guid || item.link || '');
+      const newItems = feed.items.filter((_, index) => !seenIds.has(itemIds[index]));
+
+      recordFeedSuccess(feedConfig.url, {
+        status: result.status,
+        etag: result.etag,
+        lastModified: result.lastModified,
+        items: feed.items
+          .map((item, index) => ({ id: itemIds[index], links: [getArticleLink(item.link)] }))
+          .filter(item => item.id),
+        totalItems: feed.items.length,
+        newItems: newItems.length,
+      });
+
+      if (newItems.length < feed.items.length) {
+        console.log(`Skipping ${feed.items.length - newItems.length} previously seen items from ${feedConfig.url}`);
+      }
+
+      return newItems.map(item => ({
+        alertName: feedConfig.alertName,
+        title: stripHtml(item.title || '') || 'Untitled',
+        link: getArticleLink(item.link),
+        originalLink: item.link || '',
+        pubDate: toIsoDate(item.pubDate),
+        guid: item.guid || '',
+        feedTitle: feed.title || '',
+        snippet: stripHtml(item.snippet || ''),
+      }));
+    } catch (error: any) {
+      console.error(`Error fetching ${type} feed ${feedConfig.url}:`, error.message);
+
+      // Basic retry logic
+      if (retryCount < CONFIG.rss.retries) {
+        console.log(`Retrying (${retryCount + 1}/${CONFIG.rss.retries}): ${feedConfig.url}`);
+        // Wait before retrying with exponential backoff
+        await sleep(Math.pow(2, retryCount) * 1000);
+        return fetchArticles(feedConfig, options, retryCount + 1);
+      }
+
+      console.warn(`Failed to fetch ${type} feed after ${retryCount} retries: ${feedConfig.url}`);
+      const quarantined = recordFeedFailure(
+        feedConfig.url,
+        error.message,
+        error instanceof FeedFetchError ? error.status : undefined
+      );
+      if (quarantined) {
+        console.warn(`Feed "${feedConfig.alertName}" quarantined after ${CONFIG.rss.quarantineAfterFailures} consecutive failed runs: ${feedConfig.url}`);
+      }
+      return [];
+    }
+  }
+
+  return {
+    type,
+    fetchArticles: (feedConfig, options) => fetchArticles(feedConfig, options),
+  };
+}
@@ -0,0 +1,15 @@
+// src/rss/sources/index.ts
+import { registerFeedSource } from '../feedSource.js';
+import { rssSource } from './rssSource.js';
+import { atomSource } from './atomSource.js';
+import { jsonFeedSource } from './jsonFeedSource.js';
+import { emailSource } from './emailSource.js';
+
+// Register the built-in feed sources
+registerFeedSource(rssSource);
+registerFeedSource(atomSource);
+registerFeedSource(jsonFeedSource);
+registerFeedSource(emailSource);
+
+export { rssSource, atomSource, jsonFeedSource, emailSource };
+export { createHttpFeedSource } from './httpFeedSource.js';
@@ -0,0 +1,45 @@
+// src/rss/sources/jsonFeedSource.ts
+import { z } from 'zod';
+import { ParsedFeed } from '../feedSource.js';
+import { createHttpFeedSource } from './httpFeedSource.js';
+
+// JSON Feed 1.x (https://www.jsonfeed.org/version/1.1/), only the fields we use
+const JsonFeedSchema = z.object({
+  version: z.string().optional(),
+  title: z.string().optional(),
+  items: z.array(z.object({
+    id: z.coerce.string().optional(),
+    url: z.string().optional(),
+    external_url: z.string().optional(),
+    title: z.string().optional(),
+    summary: z.string().optional(),
+    content_text: z.string().optional(),
+    content_html: z.string().optional(),
+    date_published: z.string().optional(),
+    date_modified: z.string().optional(),
+  })).default([]),
+});
+
+/**
+ * Parse a JSON Feed document
+ */
+async function parseJsonFeed(body: string): Promise<ParsedFeed> {
+  const feed = JsonFeedSchema.parse(JSON.parse(body));
+
+  return {
+    title: feed.title,
+    items: feed.items.map(item => ({
+      title: item.title,
+      link: item.url || item.external_url,
+      guid: item.id,
+      pubDate: item.date_published || item.date_modified,
+      snippet: item.summary || item.content_text || item.content_html,
+    })),
+  };
+}
+
+export const jsonFeedSource = createHttpFeedSource(
+  'json',
+  'application/feed+json, application/json;q=0.9, */*;q=0.8',
+  parseJsonFeed
+);
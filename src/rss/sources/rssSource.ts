@@ -0,0 +1,53 @@
+// src/rss/sources/rssSource.ts
+import Parser from 'rss-parser';
+import { ParsedFeed } from '../feedSource.js';
+import { createHttpFeedSource } from './httpFeedSource.js';
+
+// Define the parser with custom fields
+interface CustomFeed {
+  title?: string;
+}
+
+interface CustomItem {
+  title?: string;
+  link?: string;
+  pubDate?: string;
+  isoDate?: string;
+  content?: string;
+  contentSnippet?: string;
+  contentEncoded?: string;
+  guid?: string;
+}
+
+const parser = new Parser<CustomFeed, CustomItem>({
+  customFields: {
+    item: [
+      ['media:content', 'mediaContent'],
+      ['content:encoded', 'contentEncoded']
+    ]
+  }
+});
+
+/**
+ * Parse an RSS 2.0 document
+ */
+async function parseRss(body: string): Promise<ParsedFeed> {
+  const feed = await parser.parseString(body);
+
+  return {
+    title: feed.title,
+    items: feed.items.map(item => ({
+      title: item.title,
+      link: item.link,
+      guid: item.guid,
+      pubDate: item.isoDate || item.pubDate,
+      snippet: item.contentSnippet || item.contentEncoded || item.content,
+    })),
+  };
+}
+
+export const rssSource = createHttpFeedSource(
+  'rss',
+  'application/rss+xml, application/xml;q=0.9, */*;q=0.8',
+  parseRss
+);
@@ -2,9 +2,23 @@
 import * as cheerio from 'cheerio';
 import sanitizeHtml from 'sanitize-html';
 import TurndownService from 'turndown';
-import { fetch, RequestInit } from 'undici';
+import { RequestInit } from 'undici';
 import { backOff } from 'exponential-backoff';
 import CONFIG from '../config.js';
+import { findMainContent } from './contentScorer.js';
+import { PageMetadata, extractStructuredMetadata } from './structuredMetadata.js';
+import { MatchedExtractionProfile, getExtractionProfile, loadExtractionProfiles, parseDateWithFormat } from './extractionProfiles.js';
+import { toIsoDate } from '../utils/textUtils.js';
+import { cachedFetch, getHttpCacheMode } from '../utils/httpCache.js';
+import { extractPdfContent, isPdfDocument } from './pdfExtractor.js';
+import { ScrapeError, ScrapeFailure, classifyFetchError, classifyHttpStatus, detectSoftFailure, isHtmlContentType } from './scrapeFailures.js';
+
+// Why an article was deliberately not scraped
+export type ScrapeSkipReason = 'feed-settings' | 'extraction-profile' | 'robots-txt';
+
+// Kind of document the content was extracted from
+export const DOCUMENT_TYPES = ['html', 'pdf'] as const;
+export type DocumentType = typeof DOCUMENT_TYPES[number];
 
 export interface ArticleContent {
   title: string;
@@ -17,6 +31,14 @@ export interface ArticleContent {
   siteName: string;
   date?: string;
   language?: string;
+  confidence?: number; // How sure the extractor is that it found the article body (0-1)
+  profile?: string; // Domain of the extraction profile used, if any
+  documentType?: DocumentType;
+  pageCount?: number; // Pages in the document (PDFs only)
+  ampUrl?: string; // AMP or print version of the page, when it links one
+  metadata?: PageMetadata; // JSON-LD / OpenGraph metadata
+  skipReason?: ScrapeSkipReason;
+  failure?: ScrapeFailure; // Classified reason the extraction didn't yield the article
   error?: string;
 }
 
@@ -27,15 +49,17 @@ export interface ExtractionOptions {
 }
 
 /**
- * Configure fetch options with timeouts and headers
+ * Configure fetch options with timeouts and headers. Only a forced refetch
+ * (--refresh-cache) sends Cache-Control: no-cache, since the page cache
+ * honours it.
  */
 function configureFetchOptions(options: ExtractionOptions = {}): RequestInit {
   return {
     headers: {
-      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
+      'User-Agent': CONFIG.scraper.userAgent,
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,application/pdf;q=0.9,image/webp,image/apng,*/*;q=0.8',
       'Accept-Language': 'en-US,en;q=0.9',
-      'Cache-Control': 'no-cache',
+      ...(getHttpCacheMode() === 'refresh' ? { 'Cache-Control': 'no-cache' } : {}),
     },
     signal: AbortSignal.timeout(options.timeout || CONFIG.scraper.requestTimeout),
   };
@@ -48,178 +72,240 @@ export async function extractArticleContent(
   url: string, 
   options: ExtractionOptions = {}
 ): Promise<ArticleContent> {
+  await loadExtractionProfiles();
+  const matchedProfile = getExtractionProfile(url);
+  
+  if (matchedProfile?.profile.skip) {
+    return {
+      ...emptyArticleContent(),
+      profile: matchedProfile.domain,
+      skipReason: 'extraction-profile',
+      error: `Skipped by extraction profile for ${matchedProfile.domain}`
+    };
+  }
+  
   try {
     // Try to fetch with retries and exponential backoff
-    const html = await backOff(
+    const { body, contentType } = await backOff(
       async () => {
-        const response = await fetch(url, configureFetchOptions(options));
+        const response = await cachedFetch(url, configureFetchOptions(options));
         
         if (!response.ok) {
-          throw new Error(`HTTP error! Status: ${response.status}`);
+          throw new ScrapeError(classifyHttpStatus(response.status));
         }
         
-        return await response.text();
+        // Read raw bytes so PDFs aren't mangled by text decoding
+        return {
+          body: Buffer.from(await response.arrayBuffer()),
+          contentType: response.headers.get('content-type'),
+        };
       },
       { 
         numOfAttempts: options.retries || CONFIG.scraper.retries,
         startingDelay: 1000,
         timeMultiple: 2,
         maxDelay: 10000,
+        // Don't hammer a site that has already said no
+        retry: (error: any) => classifyFetchError(error).retryable,
       }
     );
 
-    // Extract content using cheerio
-    const $ = cheerio.load(html);
-    
-    // Remove script, style, and other non-content elements
-    $('script, style, meta, link, noscript, iframe, form, nav, footer, aside, [role="complementary"], .comment, .comments, .ad, .ads, .advertisement').remove();
-    
-    // Extract title (try different approaches)
-    const title = $('meta[property="og:title"]').attr('content') || 
-                  $('meta[name="twitter:title"]').attr('content') || 
-                  $('title').text() || 
-                  $('h1').first().text() || '';
-    
-    // Try multiple selectors with fallbacks for content extraction
-    // Common content containers in various CMS and news websites
-    const contentSelectors = [
-      'article', 
-      'main', 
-      '.article-content',
-      '.post-content',
-      '.entry-content',
-      '.content',
-      '.article-body',
-      '.story-content',
-      '.story-body',
-      '.news-content',
-      '#article-content',
-      '#content-main',
-      '[itemprop="articleBody"]',
-      'div[data-component="text-block"]'
-    ];
-    
-    let mainContent = '';
-    // Try each selector until we find content
-    for (const selector of contentSelectors) {
-      const selectedContent = $(selector).html();
-      if (selectedContent && selectedContent.length > 500) {  // Ensuring it's substantial content
-        mainContent = selectedContent;
-        break;
-      }
-    }
-    
-    // If no specific content container found, try to extract article-like content
-    if (!mainContent || mainContent.length < 500) {
-      // Look for sections with substantial paragraphs that likely contain article text
-      let bestElement: cheerio.Element | null = null;
-      let mostParagraphs = 0;
-      
-      $('div, section').each((_, element) => {
-        const paragraphs = $(element).find('p');
-        if (paragraphs.length >= 3 && paragraphs.length > mostParagraphs) {
-          mostParagraphs = paragraphs.length;
-          bestElement = element;
-        }
+    if (isPdfDocument(url, contentType, body)) {
+      return await extractPdfContent(body, url).catch((error: any): ArticleContent => {
+        const failure: ScrapeFailure = { code: 'no-content', status: 200, retryable: false, message: `Could not read PDF: ${error.message}` };
+        return { ...emptyArticleContent(), documentType: 'pdf', failure, error: failure.message };
       });
-      
-      if (bestElement) {
-        mainContent = $(bestElement).html() || '';
-      } else {
-        // Last resort: try to collect all paragraphs from the body
-        const paragraphs = $('body p').filter((_, el) => {
-          const text = $(el).text().trim();
-          return text.length > 80;  // Only substantial paragraphs
-        }).toArray();
-        
-        const contentBuilder = [];
-        for (const p of paragraphs) {
-          contentBuilder.push($.html(p));
-        }
-        
-        mainContent = contentBuilder.join('\n');
-      }
-    }
-    
-    // Fallback to body content if all else fails
-    if (!mainContent || mainContent.length < 300) {
-      mainContent = $('body').html() || '';
     }
     
-    // Clean the HTML content
-    const cleanHtml = sanitizeHtml(mainContent, {
-      allowedTags: sanitizeHtml.defaults.allowedTags.concat(['img', 'figure']),
-      allowedAttributes: {
-        ...sanitizeHtml.defaults.allowedAttributes,
-        img: ['src', 'alt', 'title'],
-      },
-    });
-    
-    // Convert to plain text (remove all tags)
-    const textContent = sanitizeHtml(cleanHtml, {
-      allowedTags: [],
-      allowedAttributes: {},
-    }).trim();
-    
-    // Log warning if text content is suspiciously small
-    if (textContent.length < 300 && textContent.length > 0) {
-      console.warn(`Warning: Extracted text from ${url} is suspiciously short (${textContent.length} chars)`);
+    if (!isHtmlContentType(contentType)) {
+      const failure: ScrapeFailure = {
+        code: 'unsupported-content',
+        status: 200,
+        retryable: false,
+        message: `Unsupported content type: ${contentType}`,
+      };
+      return { ...emptyArticleContent(), profile: matchedProfile?.domain, failure, error: failure.message };
     }
     
-    // Generate markdown version
-    const turndownService = new TurndownService({
-      headingStyle: 'atx',
-      codeBlockStyle: 'fenced'
-    });
-    const markdown = turndownService.turndown(cleanHtml);
-    
-    // Extract metadata when available
-    const byline = $('meta[name="author"]').attr('content') || 
-                  $('meta[property="article:author"]').attr('content') || 
-                  $('.author, .byline').first().text().trim() || '';
-    
-    const siteName = $('meta[property="og:site_name"]').attr('content') || 
-                    $('meta[name="application-name"]').attr('content') || 
-                    $('.site-name, .site-title').first().text().trim() || 
-                    new URL(url).hostname;
-    
-    const date = $('meta[property="article:published_time"]').attr('content') || 
-                $('time').attr('datetime') || 
-                $('meta[name="date"]').attr('content') || '';
-    
-    // Extract excerpt/description
-    const excerpt = $('meta[name="description"]').attr('content') || 
-                   $('meta[property="og:description"]').attr('content') || 
-                   $('meta[name="twitter:description"]').attr('content') || 
-                   $('.excerpt, .description, .summary').first().text().trim() || 
-                   textContent.substring(0, 200) + '...';
-    
-    console.log(cleanHtml);
-    // Return the extracted content
-    return {
-      title,
-      content: cleanHtml,
-      textContent,
-      markdownContent: markdown,
-      length: textContent.length,
-      excerpt,
-      byline,
-      siteName,
-      date,
-      language: $('html').attr('lang') || 'en',
-    };
+    return extractArticleFromHtml(body.toString('utf-8'), url, matchedProfile);
   } catch (error: any) {
-    console.error(`Error extracting content from ${url}:`, error.message);
+    const failure = classifyFetchError(error);
+    console.error(`Error extracting content from ${url} [${failure.code}]:`, failure.message);
     return {
-      title: '',
-      content: '',
-      textContent: '',
-      markdownContent: '',
-      length: 0,
-      excerpt: '',
-      byline: '',
-      siteName: '',
-      error: error.message
+      ...emptyArticleContent(),
+      profile: matchedProfile?.domain,
+      failure,
+      error: failure.message
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Content returned when nothing could be extracted
+ */
+function emptyArticleContent(): ArticleContent {
+  return {
+    title: '',
+    content: '',
+    textContent: '',
+    markdownContent: '',
+    length: 0,
+    excerpt: '',
+    byline: '',
+    siteName: '',
+  };
+}
+
+/**
+ * Resolve a possibly relative link against the page URL
+ */
+function resolveLink(href: string | undefined, baseUrl: string): string | undefined {
+  if (!href) {
+    return undefined;
+  }
+  
+  try {
+    const resolved = new URL(href, baseUrl).toString();
+    return resolved === baseUrl ? undefined : resolved;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Read a date from the element a profile points at, using the profile's format if given
+ */
+function extractProfileDate($: cheerio.CheerioAPI, selector: string, format?: string): string {
+  const element = $(selector).first();
+  const value = (element.attr('datetime') || element.attr('content') || element.text()).trim();
+  
+  if (format) {
+    return parseDateWithFormat(value, format) || toIsoDate(value);
+  }
+  return toIsoDate(value) || value;
+}
+
+/**
+ * Extract the main article content from a page that has already been fetched.
+ * Kept separate from fetching so saved pages can be re-extracted.
+ * A matched extraction profile overrides the generic heuristics for its site.
+ */
+export function extractArticleFromHtml(
+  html: string,
+  url: string,
+  matchedProfile?: MatchedExtractionProfile
+): ArticleContent {
+  const profile = matchedProfile?.profile;
+  
+  // Extract content using cheerio
+  const $ = cheerio.load(html);
+  
+  // Read profile metadata before boilerplate removal can take its elements away
+  const profileTitle = profile?.titleSelector ? $(profile.titleSelector).first().text().trim() : '';
+  const profileByline = profile?.bylineSelector ? $(profile.bylineSelector).first().text().trim() : '';
+  const profileDate = profile?.dateSelector ? extractProfileDate($, profile.dateSelector, profile.dateFormat) : '';
+  
+  // Structured metadata lives in scripts and meta tags, which are removed below
+  const metadata = extractStructuredMetadata($);
+  
+  // Note the lighter AMP/print version before <link> elements are removed
+  const ampUrl = resolveLink($('link[rel="amphtml"]').attr('href') || $('link[rel="alternate"][media="print"]').attr('href'), url);
+  
+  // Remove script, style, and other non-content elements
+  $('script, style, meta, link, noscript, iframe, form, nav, footer, aside, [role="complementary"], .comment, .comments, .ad, .ads, .advertisement').remove();
+  profile?.stripSelectors.forEach(selector => $(selector).remove());
+  
+  // Extract title (try different approaches)
+  const title = profileTitle ||
+                metadata.headline || 
+                $('title').text() || 
+                $('h1').first().text() || '';
+  
+  // Use the profile's content selector when it matches, otherwise score the
+  // page's containers to find the article body
+  const profileContent = profile?.contentSelector ? $(profile.contentSelector).html() || '' : '';
+  const { html: scoredContent, confidence } = profileContent
+    ? { html: profileContent, confidence: 1 }
+    : findMainContent($);
+  
+  if (profile?.contentSelector && !profileContent) {
+    console.warn(`Content selector "${profile.contentSelector}" from the ${matchedProfile?.domain} profile matched nothing on ${url}`);
+  }
+  
+  // Fall back to the whole body when nothing looked like article text
+  const mainContent = scoredContent || $('body').html() || '';
+  
+  // Clean the HTML content
+  const cleanHtml = sanitizeHtml(mainContent, {
+    allowedTags: sanitizeHtml.defaults.allowedTags.concat(['img', 'figure']),
+    allowedAttributes: {
+      ...sanitizeHtml.defaults.allowedAttributes,
+      img: ['src', 'alt', 'title'],
+    },
+  });
+  
+  // Convert to plain text (remove all tags), keeping a line break after
+  // each block so headings and paragraphs don't run together
+  const textContent = sanitizeHtml(cleanHtml.replace(/<\/(p|div|h[1-6]|li|blockquote|pre|tr|section|article|figure)>|<br\s*\/?>/gi, '$&\n'), {
+    allowedTags: [],
+    allowedAttributes: {},
+  }).replace(/\n{3,}/g, '\n\n').trim();
+  
+  // Log warning if text content is suspiciously small
+  if (textContent.length < 300 && textContent.length > 0) {
+    console.warn(`Warning: Extracted text from ${url} is suspiciously short (${textContent.length} chars)`);
+  }
+  
+  // Generate markdown version
+  const turndownService = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced'
+  });
+  const markdown = turndownService.turndown(cleanHtml);
+  
+  // Extract metadata when available, preferring what the page declares
+  const byline = profileByline ||
+                metadata.authors.join(', ') || 
+                $('.author, .byline').first().text().trim() || '';
+  
+  const siteName = metadata.publisher || 
+                  $('.site-name, .site-title').first().text().trim() || 
+                  new URL(url).hostname;
+  
+  const date = profileDate ||
+              metadata.datePublished || 
+              toIsoDate($('time').attr('datetime')) || 
+              $('time').attr('datetime') || '';
+  
+  // Extract excerpt/description
+  const excerpt = metadata.description || 
+                 $('.excerpt, .description, .summary').first().text().trim() || 
+                 textContent.substring(0, 200) + '...';
+  
+  // A 200 can still be a paywall, consent wall, captcha or empty shell
+  const failure: ScrapeFailure | undefined = detectSoftFailure(html, textContent)
+    || (textContent.length === 0
+      ? { code: 'no-content', status: 200, retryable: false, message: 'No text could be extracted from the page' }
+      : undefined);
+  
+  // Return the extracted content
+  return {
+    title,
+    content: cleanHtml,
+    textContent,
+    markdownContent: markdown,
+    length: textContent.length,
+    excerpt,
+    byline,
+    siteName,
+    date,
+    language: $('html').attr('lang') || 'en',
+    confidence,
+    profile: matchedProfile?.domain,
+    documentType: 'html',
+    ampUrl,
+    metadata,
+    failure,
+    error: failure?.message,
+  };
+}
@@ -0,0 +1,243 @@
+// src/scraper/contentScorer.ts
+import * as cheerio from 'cheerio';
+
+// Class/id patterns for page furniture that is almost never article text
+const UNLIKELY_CANDIDATES = /banner|breadcrumb|combx|comment|community|consent|cookie|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|pager|pagination|popup|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|widget/i;
+
+// Class/id patterns that rescue an element from the unlikely list
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow|story/i;
+
+// Class/id hints that raise or lower a candidate's score
+const POSITIVE_HINTS = /article|body|content|entry|hentry|h-entry|main|page|post|story|text|blog/i;
+const NEGATIVE_HINTS = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget|cookie|nav|menu/i;
+
+// Elements whose text is scored and credited to their ancestors
+const SCORED_TAGS = 'p, pre, td, blockquote, h2, h3, h4';
+
+// Below this many characters a text block is too short to say anything
+const MIN_BLOCK_LENGTH = 25;
+
+// Text length at which length stops adding to confidence
+const CONFIDENT_LENGTH = 1500;
+
+// The content the scorer picked and how sure it is that it is the article
+export interface ScoredContent {
+  html: string;
+  confidence: number; // 0 (guess) to 1 (clearly an article body)
+}
+
+/**
+ * Get the collapsed text of an element
+ */
+function getText($: cheerio.CheerioAPI, element: cheerio.Element): string {
+  return $(element).text().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Share of an element's text that sits inside links (navigation, related lists)
+ */
+function getLinkDensity($: cheerio.CheerioAPI, element: cheerio.Element): number {
+  const textLength = getText($, element).length;
+  if (textLength === 0) {
+    return 0;
+  }
+
+  const linkLength = $(element).find('a').toArray()
+    .reduce((sum, link) => sum + getText($, link).length, 0);
+  return Math.min(linkLength / textLength, 1);
+}
+
+/**
+ * Score an element's class and id against the content hints
+ */
+function getClassWeight(element: cheerio.Element): number {
+  let weight = 0;
+
+  for (const name of [element.attribs?.class, element.attribs?.id]) {
+    if (!name) {
+      continue;
+    }
+    if (NEGATIVE_HINTS.test(name)) {
+      weight -= 25;
+    }
+    if (POSITIVE_HINTS.test(name)) {
+      weight += 25;
+    }
+  }
+
+  // Pages that mark up their body with schema.org say so explicitly
+  if (element.attribs?.itemprop === 'articleBody') {
+    weight += 50;
+  }
+
+  return weight;
+}
+
+/**
+ * Starting score for a candidate container based on its tag
+ */
+function getTagWeight(element: cheerio.Element): number {
+  switch (element.tagName) {
+    case 'article':
+      return 10;
+    case 'div':
+    case 'section':
+    case 'main':
+      return 5;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      return 3;
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'dd':
+    case 'dt':
+    case 'li':
+    case 'form':
+      return -3;
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+    case 'th':
+      return -5;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Remove elements whose class or id marks them as page furniture
+ */
+function removeUnlikelyCandidates($: cheerio.CheerioAPI): void {
+  $('body *').each((_, element) => {
+    if (['body', 'article', 'main', 'a'].includes(element.tagName)) {
+      return;
+    }
+
+    const match = `${element.attribs?.class || ''} ${element.attribs?.id || ''} ${element.attribs?.role || ''}`;
+    if (UNLIKELY_CANDIDATES.test(match) && !MAYBE_CANDIDATE.test(match)) {
+      $(element).remove();
+    }
+  });
+}
+
+/**
+ * Find the main content of a page by scoring containers on the text they hold:
+ * each paragraph credits its parent (and, less, its grandparents) by length and
+ * comma count, class/id hints adjust the score, link-heavy containers are
+ * penalised, and siblings of the best container that look like article text
+ * are merged back in.
+ */
+export function findMainContent($: cheerio.CheerioAPI): ScoredContent {
+  const pageTextLength = $('body').text().replace(/\s+/g, ' ').trim().length;
+  removeUnlikelyCandidates($);
+
+  const scores = new Map<cheerio.Element, number>();
+
+  $(SCORED_TAGS).each((_, block) => {
+    const text = getText($, block);
+    if (text.length < MIN_BLOCK_LENGTH) {
+      return;
+    }
+
+    const blockScore = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+
+    $(block).parents().slice(0, 3).each((level, ancestor) => {
+      if (ancestor.tagName === 'body' || ancestor.tagName === 'html') {
+        return false;
+      }
+      if (!scores.has(ancestor)) {
+        scores.set(ancestor, getTagWeight(ancestor) + getClassWeight(ancestor));
+      }
+
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, (scores.get(ancestor) || 0) + blockScore / divider);
+      return true;
+    });
+  });
+
+  // Scale by how much of each candidate is not links
+  const candidates = [...scores.entries()]
+    .map(([element, score]) => ({ element, score: score * (1 - getLinkDensity($, element)) }))
+    .sort((a, b) => b.score - a.score);
+
+  const top = candidates[0];
+  if (!top || top.score <= 0) {
+    return { html: '', confidence: 0 };
+  }
+
+  // Merge siblings that carry the same story (e.g. text split around an image)
+  const threshold = Math.max(10, top.score * 0.2);
+  const candidateScores = new Map(candidates.map(candidate => [candidate.element, candidate.score]));
+  const parts: string[] = [];
+
+  $(top.element).parent().children().each((_, sibling) => {
+    if (sibling === top.element) {
+      parts.push($.html(sibling));
+      return;
+    }
+
+    let append = false;
+    let bonus = 0;
+    if (sibling.attribs?.class && sibling.attribs.class === top.element.attribs?.class) {
+      bonus = top.score * 0.2;
+    }
+
+    if ((candidateScores.get(sibling) || 0) + bonus >= threshold) {
+      append = true;
+    } else if (sibling.tagName === 'p') {
+      const text = getText($, sibling);
+      const linkDensity = getLinkDensity($, sibling);
+      append = (text.length > 80 && linkDensity < 0.25)
+        || (text.length > 0 && text.length <= 80 && linkDensity === 0 && /\.( |$)/.test(text));
+    }
+
+    if (append) {
+      parts.push($.html(sibling));
+    }
+  });
+
+  const html = parts.join('\n');
+  const contentLength = cheerio.load(html).root().text().replace(/\s+/g, ' ').trim().length;
+
+  return {
+    html,
+    confidence: getConfidence({
+      contentLength,
+      pageTextLength,
+      linkDensity: getLinkDensity($, top.element),
+      topScore: top.score,
+      runnerUpScore: candidates.find(candidate => !$(candidate.element).parents().is(top.element)
+        && !$(top.element).parents().is(candidate.element)
+        && candidate.element !== top.element)?.score || 0,
+    }),
+  };
+}
+
+/**
+ * Combine the signals of a scoring pass into a 0-1 confidence: enough text,
+ * few links, most of the page's prose, and a clear winner over other candidates
+ */
+function getConfidence(signals: {
+  contentLength: number;
+  pageTextLength: number;
+  linkDensity: number;
+  topScore: number;
+  runnerUpScore: number;
+}): number {
+  const lengthFactor = Math.min(signals.contentLength / CONFIDENT_LENGTH, 1);
+  const linkFactor = 1 - Math.min(signals.linkDensity * 2, 1);
+  const shareFactor = signals.pageTextLength > 0
+    ? Math.min((signals.contentLength / signals.pageTextLength) * 2, 1)
+    : 0;
+  const marginFactor = signals.topScore > 0
+    ? 1 - Math.min(signals.runnerUpScore / signals.topScore, 1)
+    : 0;
+
+  const confidence = 0.45 * lengthFactor + 0.2 * linkFactor + 0.15 * shareFactor + 0.2 * marginFactor;
+  return Math.round(confidence * 100) / 100;
+}
@@ -0,0 +1,78 @@
+// src/scraper/extractionFixtures.ts
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { extractArticleFromHtml } from './articleExtractor.js';
+
+// What extracting a saved page must produce
+const FixtureSchema = z.object({
+  file: z.string().min(1), // HTML file next to expected.json
+  url: z.string().url(), // Where the page was saved from
+  title: z.string().optional(),
+  includes: z.array(z.string()).default([]), // Article text that must be extracted
+  excludes: z.array(z.string()).default([]), // Navigation, banners etc. that must not be
+  minConfidence: z.number().min(0).max(1).optional(),
+  maxConfidence: z.number().min(0).max(1).optional(),
+  failure: z.string().optional(), // Expected failure code; none if unset
+});
+
+export type ExtractionFixture = z.infer<typeof FixtureSchema>;
+
+// Outcome of checking one saved page
+export interface FixtureResult {
+  file: string;
+  confidence?: number;
+  length: number;
+  problems: string[]; // Empty when the page passed
+}
+
+/**
+ * Extract a saved page and list how the result differs from its expectations
+ */
+async function checkFixture(fixturesDir: string, fixture: ExtractionFixture): Promise<FixtureResult> {
+  const html = await fs.readFile(path.join(fixturesDir, fixture.file), 'utf8');
+  const content = extractArticleFromHtml(html, fixture.url);
+  const text = content.textContent.replace(/\s+/g, ' ');
+  const problems: string[] = [];
+
+  if (fixture.title !== undefined && content.title !== fixture.title) {
+    problems.push(`title was "${content.title}", expected "${fixture.title}"`);
+  }
+  fixture.includes
+    .filter(phrase => !text.includes(phrase))
+    .forEach(phrase => problems.push(`missing "${phrase}"`));
+  fixture.excludes
+    .filter(phrase => text.includes(phrase))
+    .forEach(phrase => problems.push(`should not contain "${phrase}"`));
+
+  const confidence = content.confidence ?? 0;
+  if (fixture.minConfidence !== undefined && confidence < fixture.minConfidence) {
+    problems.push(`confidence ${confidence} is below ${fixture.minConfidence}`);
+  }
+  if (fixture.maxConfidence !== undefined && confidence > fixture.maxConfidence) {
+    problems.push(`confidence ${confidence} is above ${fixture.maxConfidence}`);
+  }
+
+  const failureCode = content.failure?.code;
+  if (failureCode !== fixture.failure) {
+    problems.push(`failure was ${failureCode || 'none'}, expected ${fixture.failure || 'none'}`);
+  }
+
+  return { file: fixture.file, confidence: content.confidence, length: content.length, problems };
+}
+
+/**
+ * Run the extractor over a corpus of saved pages (a directory of HTML files
+ * with an expected.json listing what each must produce), so changes to
+ * content scoring can be checked against real layouts
+ */
+export async function checkExtractionFixtures(fixturesDir: string): Promise<FixtureResult[]> {
+  const manifest = JSON.parse(await fs.readFile(path.join(fixturesDir, 'expected.json'), 'utf8'));
+  const fixtures = z.array(FixtureSchema).parse(manifest);
+
+  const results: FixtureResult[] = [];
+  for (const fixture of fixtures) {
+    results.push(await checkFixture(fixturesDir, fixture));
+  }
+  return results;
+}
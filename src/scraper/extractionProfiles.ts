@@ -0,0 +1,141 @@
+// src/scraper/extractionProfiles.ts
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import YAML from 'yaml';
+import CONFIG from '../config.js';
+
+// Selectors and settings for one publisher's pages
+const ExtractionProfileSchema = z.object({
+  contentSelector: z.string().optional(),
+  stripSelectors: z.array(z.string()).default([]), // Boilerplate removed before extraction
+  titleSelector: z.string().optional(),
+  dateSelector: z.string().optional(),
+  dateFormat: z.string().optional(), // e.g. "MMMM D, YYYY" or "DD/MM/YYYY"
+  bylineSelector: z.string().optional(),
+  skip: z.boolean().default(false), // Don't scrape this site at all
+});
+
+// Profiles file: { profiles: { "example.gov": {...} } } or the map on its own
+const ExtractionProfilesFileSchema = z.union([
+  z.object({ profiles: z.record(ExtractionProfileSchema) }).transform(file => file.profiles),
+  z.record(ExtractionProfileSchema),
+]);
+
+export type ExtractionProfile = z.infer<typeof ExtractionProfileSchema>;
+
+// A profile together with the domain key it was found under
+export interface MatchedExtractionProfile {
+  domain: string;
+  profile: ExtractionProfile;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Date format tokens, longest first so "MMMM" is not read as "MM" twice
+const DATE_TOKENS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  MMMM: '([A-Za-z]+)',
+  MMM: '([A-Za-z]{3,4})\\.?',
+  MM: '(\\d{2})',
+  M: '(\\d{1,2})',
+  DD: '(\\d{2})',
+  D: '(\\d{1,2})',
+  HH: '(\\d{1,2})',
+  mm: '(\\d{2})',
+};
+
+let profiles: Record<string, ExtractionProfile> = {};
+let loaded = false;
+
+/**
+ * Load extraction profiles from CONFIG.scraper.profilesFilePath (once per process).
+ * A missing file just means every site goes through content scoring.
+ */
+export async function loadExtractionProfiles(): Promise<void> {
+  if (loaded) {
+    return;
+  }
+
+  const filePath = CONFIG.scraper.profilesFilePath;
+  try {
+    const text = await fs.readFile(filePath, 'utf8');
+    const data = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(text) : YAML.parse(text);
+    profiles = Object.fromEntries(
+      Object.entries(ExtractionProfilesFileSchema.parse(data || {}))
+        .map(([domain, profile]) => [domain.toLowerCase().replace(/^www\./, ''), profile])
+    );
+    console.log(`Loaded ${Object.keys(profiles).length} extraction profiles from ${filePath}`);
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.warn(`Could not load extraction profiles from ${filePath}: ${error.message}`);
+    }
+    profiles = {};
+  }
+
+  loaded = true;
+}
+
+/**
+ * Find the profile for a URL. A profile for "example.gov" also covers its
+ * subdomains; the most specific matching domain wins.
+ */
+export function getExtractionProfile(url: string): MatchedExtractionProfile | undefined {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch (e) {
+    return undefined;
+  }
+
+  const domain = Object.keys(profiles)
+    .filter(key => hostname === key || hostname.endsWith(`.${key}`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return domain ? { domain, profile: profiles[domain] } : undefined;
+}
+
+/**
+ * Parse a date written in a site-specific format into ISO 8601.
+ * Returns an empty string if the text doesn't match the format.
+ */
+export function parseDateWithFormat(text: string, format: string): string {
+  const tokenPattern = new RegExp(Object.keys(DATE_TOKENS).join('|'), 'g');
+  const escapeLiteral = (literal: string) => literal
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\s+/g, '\\s+');
+
+  // Turn the format into a regular expression with one group per token
+  const tokens: string[] = [];
+  let pattern = '';
+  let position = 0;
+  for (const tokenMatch of format.matchAll(tokenPattern)) {
+    pattern += escapeLiteral(format.substring(position, tokenMatch.index)) + DATE_TOKENS[tokenMatch[0]];
+    tokens.push(tokenMatch[0]);
+    position = (tokenMatch.index || 0) + tokenMatch[0].length;
+  }
+  pattern += escapeLiteral(format.substring(position));
+
+  const match = text.trim().match(new RegExp(pattern, 'i'));
+  if (!match) {
+    return '';
+  }
+
+  const parts: Record<string, number> = { year: 0, month: 0, day: 1, hour: 0, minute: 0 };
+  tokens.forEach((token, index) => {
+    const value = match[index + 1];
+    if (token === 'YYYY') parts.year = parseInt(value, 10);
+    if (token === 'MM' || token === 'M') parts.month = parseInt(value, 10) - 1;
+    if (token === 'MMMM' || token === 'MMM') parts.month = MONTHS.indexOf(value.substring(0, 3).toLowerCase());
+    if (token === 'DD' || token === 'D') parts.day = parseInt(value, 10);
+    if (token === 'HH') parts.hour = parseInt(value, 10);
+    if (token === 'mm') parts.minute = parseInt(value, 10);
+  });
+
+  if (!parts.year || parts.month < 0) {
+    return '';
+  }
+
+  const date = new Date(Date.UTC(parts.year, parts.month, parts.day, parts.hour, parts.minute));
+  return isNaN(date.getTime()) ? '' : date.toISOString();
+}
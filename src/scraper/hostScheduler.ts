@@ -0,0 +1,58 @@
+// src/scraper/hostScheduler.ts
+import pLimit from 'p-limit';
+import { setTimeout as sleep } from 'node:timers/promises';
+import CONFIG from '../config.js';
+
+// Concurrency limit and pacing for one host
+interface HostSlot {
+  limit: ReturnType<typeof pLimit>;
+  nextRequestAt: number;
+}
+
+const hosts = new Map<string, HostSlot>();
+
+/**
+ * Get the host a URL belongs to, for scheduling purposes
+ */
+function getHostKey(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch (e) {
+    return url;
+  }
+}
+
+/**
+ * Run a request for a URL once its host has a free slot and enough time has
+ * passed since the last request started there. The gap is the larger of
+ * CONFIG.scraper.requestDelay and the site's robots.txt Crawl-delay.
+ */
+export function scheduleForHost<T>(
+  url: string,
+  task: () => Promise<T>,
+  getCrawlDelay: () => Promise<number | undefined> = async () => undefined
+): Promise<T> {
+  const key = getHostKey(url);
+  let host = hosts.get(key);
+  if (!host) {
+    host = { limit: pLimit(CONFIG.scraper.maxConcurrentPerHost), nextRequestAt: 0 };
+    hosts.set(key, host);
+  }
+  const slot = host;
+
+  return slot.limit(async () => {
+    const crawlDelay = await getCrawlDelay();
+    const gap = Math.max(CONFIG.scraper.requestDelay, (crawlDelay || 0) * 1000);
+
+    // Claim the next start time before waiting so queued requests line up behind it
+    const startAt = Math.max(Date.now(), slot.nextRequestAt);
+    slot.nextRequestAt = startAt + gap;
+
+    const wait = startAt - Date.now();
+    if (wait > 0) {
+      await sleep(wait);
+    }
+
+    return task();
+  });
+}
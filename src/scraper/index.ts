@@ -1,59 +1,206 @@
 import pLimit from 'p-limit';
 import { setTimeout as sleep } from 'node:timers/promises';
-import { extractArticleContent } from './articleExtractor.js';
+import { ArticleContent, DocumentType, ScrapeSkipReason, extractArticleContent } from './articleExtractor.js';
+import { scheduleForHost } from './hostScheduler.js';
+import { checkRobots } from './robots.js';
+import type { PageMetadata } from './structuredMetadata.js';
+import { ScrapeFailure, classifyFetchError, countScrapeFailures } from './scrapeFailures.js';
+import { toIsoDate } from '../utils/textUtils.js';
 import CONFIG from '../config.js';
+import type { FeedDetails } from '../rss/feedSource.js';
 
 export interface ArticleInput {
   alertName: string;
   title: string;
-  link: string;
+  link: string; // Publisher URL, with any Google redirect unwrapped
+  originalLink?: string; // Link as it appeared in the feed (e.g. a Google redirect)
+  pubDate?: string; // ISO publication date from the feed item
+  guid?: string;
+  feedTitle?: string;
+  snippet?: string; // Plain-text summary from the feed item
+  feed?: FeedDetails; // Settings of the feed the article came from, when known
 }
 
+// Where an article's content came from: the page, its AMP/print version, or the feed item
+export const CONTENT_SOURCES = ['page', 'amp', 'feed-snippet', 'none'] as const;
+export type ContentSource = typeof CONTENT_SOURCES[number];
+
 export interface ArticleOutput extends ArticleInput {
-  content: string;
+  content: string; // Plain text
+  contentSource?: ContentSource;
+  markdownContent?: string; // The same content with headings, lists and links kept
+  excerpt?: string;
+  byline?: string;
+  siteName?: string;
+  language?: string;
+  length?: number; // Characters of plain-text content
+  pageDate?: string; // ISO publication date found on the article page
+  documentType?: DocumentType; // What the scraped content came from (web page or PDF)
+  pageCount?: number; // Pages in the scraped document (PDFs only)
+  metadata?: PageMetadata; // JSON-LD / OpenGraph metadata from the page
   error?: string;
+  failure?: ScrapeFailure; // Classified scrape failure (code, HTTP status, retryable)
+  skipReason?: ScrapeSkipReason; // Set when the article was deliberately not scraped
+}
+
+/**
+ * Copy what the extractor found onto the article
+ */
+function getContentFields(content: ArticleContent): Partial<ArticleOutput> & { content: string } {
+  return {
+    content: content.textContent || '',
+    markdownContent: content.markdownContent || undefined,
+    excerpt: content.excerpt || undefined,
+    byline: content.byline || undefined,
+    siteName: content.siteName || undefined,
+    language: content.language || undefined,
+    length: content.length,
+    pageDate: toIsoDate(content.date) || undefined,
+  };
+}
+
+/**
+ * Check whether extracted content is the article rather than a teaser, wall or stub
+ */
+function isUsableContent(content: ArticleContent): boolean {
+  return !content.failure && content.textContent.length >= CONFIG.scraper.minContentLength;
+}
+
+/**
+ * Try the AMP or print version a page links to, which is often served
+ * without the paywall or script shell of the main page
+ */
+async function extractAlternateVersion(
+  ampUrl: string,
+  options: { retries?: number; timeout?: number }
+): Promise<ArticleContent | undefined> {
+  const robots = await checkRobots(ampUrl);
+  if (!robots.allowed) {
+    return undefined;
+  }
+  
+  console.log(`Trying AMP/print version ${ampUrl}`);
+  return extractArticleContent(ampUrl, options);
 }
 
 /**
- * Scrapes a single article with retries
+ * Fall back to the feed item's title and snippet when the page gave nothing
+ * usable. Short page text is kept if it says more than the snippet; text
+ * from a failed scrape (a paywall teaser, a challenge page) never is.
+ */
+function withFeedSnippetFallback(output: ArticleOutput): ArticleOutput {
+  const snippetContent = output.snippet ? `${output.title}\n\n${output.snippet}`.trim() : '';
+  
+  if (snippetContent && (output.failure || output.skipReason || snippetContent.length > output.content.length)) {
+    return {
+      ...output,
+      content: snippetContent,
+      contentSource: 'feed-snippet',
+      markdownContent: undefined,
+      excerpt: output.snippet,
+      length: snippetContent.length,
+    };
+  }
+  return { ...output, contentSource: output.content ? 'page' : 'none' };
+}
+
+/**
+ * Scrapes a single article with retries. When the page is blocked, fails or
+ * yields too little text, falls back to its AMP/print version and then to the
+ * feed snippet, recording which one was used in contentSource.
  */
 export async function scrapeArticle(article: ArticleInput, retryCount = 0): Promise<ArticleOutput> {
+  // Feeds can opt out of scraping or tune it
+  const overrides = article.feed?.scraper;
+  if (overrides?.skip) {
+    console.log(`Skipping scrape for ${article.link} (disabled for this feed)`);
+    return withFeedSnippetFallback({
+      ...article,
+      content: '',
+      error: 'Scraping disabled for this feed',
+      skipReason: 'feed-settings'
+    });
+  }
+  
+  const robots = await checkRobots(article.link);
+  if (!robots.allowed) {
+    console.log(`Skipping scrape for ${article.link} (disallowed by robots.txt)`);
+    return withFeedSnippetFallback({
+      ...article,
+      content: '',
+      error: 'Disallowed by robots.txt',
+      skipReason: 'robots-txt'
+    });
+  }
+  
   try {
     // Extract content with retry logic built into the extractor
-    const content = await extractArticleContent(article.link, {
-      retries: CONFIG.scraper.retries,
-    });
+    const extractionOptions = {
+      retries: overrides?.retries ?? CONFIG.scraper.retries,
+      timeout: overrides?.timeout,
+    };
+    const content = await extractArticleContent(article.link, extractionOptions);
     
     if (content.error) {
-      console.log(`Error extracting content from ${article.link}: ${content.error}`);
+      console.log(`Error extracting content from ${article.link}${content.failure ? ` [${content.failure.code}]` : ''}: ${content.error}`);
     }
     
-    return {
+    const output: ArticleOutput = {
       ...article,
-      content: content.textContent || '',
-      error: content.error
+      ...getContentFields(content),
+      contentSource: 'page',
+      documentType: content.documentType,
+      pageCount: content.pageCount,
+      metadata: content.metadata,
+      error: content.error,
+      failure: content.failure,
+      skipReason: content.skipReason
     };
+    
+    if (content.skipReason) {
+      return withFeedSnippetFallback(output);
+    }
+    if (isUsableContent(content)) {
+      return output;
+    }
+    
+    // The page's failure stays recorded even when a fallback supplies the text
+    const alternate = content.ampUrl ? await extractAlternateVersion(content.ampUrl, extractionOptions) : undefined;
+    if (alternate && isUsableContent(alternate)) {
+      return {
+        ...output,
+        ...getContentFields(alternate),
+        contentSource: 'amp',
+        pageDate: output.pageDate || toIsoDate(alternate.date) || undefined,
+        metadata: alternate.metadata || output.metadata,
+      };
+    }
+    
+    return withFeedSnippetFallback(output);
   } catch (error: any) {
     console.error(`Error scraping article ${article.link}:`, error.message);
+    const failure = classifyFetchError(error);
     
     // Basic retry logic
-    if (retryCount < CONFIG.scraper.retries) {
+    if (failure.retryable && retryCount < CONFIG.scraper.retries) {
       console.log(`Retrying (${retryCount + 1}/${CONFIG.scraper.retries}): ${article.link}`);
       // Wait before retrying with exponential backoff
       await sleep(Math.pow(2, retryCount) * 1000);
       return scrapeArticle(article, retryCount + 1);
     }
     
-    return {
+    return withFeedSnippetFallback({
       ...article,
       content: '',
-      error: error.message
-    };
+      error: failure.message,
+      failure
+    });
   }
 }
 
 /**
- * Scrapes multiple articles with concurrency control
+ * Scrapes multiple articles with concurrency control. Requests are limited
+ * per host (concurrency, delay and robots.txt Crawl-delay) as well as overall.
  */
 export async function scrapeArticles(articles: ArticleInput[]): Promise<ArticleOutput[]> {
   console.log(`Starting to scrape ${articles.length} articles...`);
@@ -61,23 +208,45 @@ export async function scrapeArticles(articles: ArticleInput[]): Promise<ArticleO
   // Create concurrency limiter
   const limit = pLimit(CONFIG.scraper.maxConcurrent);
   
-  // Queue all scraping tasks with defined concurrency
-  const scrapingPromises = articles.map((article, index) => 
-    limit(async () => {
-      console.log(`Scraping article ${index + 1}/${articles.length}: ${article.title}`);
-      
-      // Add delay between requests if configured
-      if (index > 0 && CONFIG.scraper.requestDelay > 0) {
-        await sleep(CONFIG.scraper.requestDelay);
-      }
-      
-      return scrapeArticle(article);
-    })
-  );
+  // Queue all scraping tasks; a request only takes a global slot once its host is ready
+  const scrapingPromises = articles.map((article, index) => {
+    return scheduleForHost(
+      article.link,
+      () => limit(async () => {
+        console.log(`Scraping article ${index + 1}/${articles.length}: ${article.title}`);
+        return scrapeArticle(article);
+      }),
+      async () => (await checkRobots(article.link)).crawlDelay
+    );
+  });
   
   // Wait for all scraping tasks to complete
   const results = await Promise.all(scrapingPromises);
   
+  const skipCounts = results.reduce<Record<string, number>>((counts, result) => {
+    if (result.skipReason) {
+      counts[result.skipReason] = (counts[result.skipReason] || 0) + 1;
+    }
+    return counts;
+  }, {});
+  
+  const failureCounts = countScrapeFailures(results);
+  const fallbackCounts = results.reduce<Record<string, number>>((counts, result) => {
+    if (result.contentSource && result.contentSource !== 'page') {
+      counts[result.contentSource] = (counts[result.contentSource] || 0) + 1;
+    }
+    return counts;
+  }, {});
+  
   console.log(`Completed scraping ${results.length} articles`);
+  if (Object.keys(skipCounts).length > 0) {
+    console.log(`Skipped: ${Object.entries(skipCounts).map(([reason, count]) => `${reason} (${count})`).join(', ')}`);
+  }
+  if (Object.keys(failureCounts).length > 0) {
+    console.log(`Failed: ${Object.entries(failureCounts).map(([code, count]) => `${code} (${count})`).join(', ')}`);
+  }
+  if (Object.keys(fallbackCounts).length > 0) {
+    console.log(`Content not from the page: ${Object.entries(fallbackCounts).map(([source, count]) => `${source} (${count})`).join(', ')}`);
+  }
   return results;
 }
\ No newline at end of file
@@ -0,0 +1,124 @@
+// src/scraper/pdfExtractor.ts
+import { extractText, getDocumentProxy, getMeta } from 'unpdf';
+import type { ArticleContent } from './articleExtractor.js';
+import type { ScrapeFailure } from './scrapeFailures.js';
+
+// PDF files start with this signature whatever the server calls them
+const PDF_SIGNATURE = '%PDF-';
+
+/**
+ * Check whether a fetched document is a PDF, by content type, URL extension
+ * or (for servers that send application/octet-stream) the file signature.
+ * A .pdf link served as HTML is usually a login or error page, so then only
+ * the signature counts.
+ */
+export function isPdfDocument(url: string, contentType: string | null, body?: Buffer): boolean {
+  const hasSignature = body !== undefined && body.subarray(0, PDF_SIGNATURE.length).toString('latin1') === PDF_SIGNATURE;
+  if (hasSignature || contentType?.toLowerCase().includes('application/pdf')) {
+    return true;
+  }
+  if (contentType && /html/i.test(contentType)) {
+    return false;
+  }
+
+  try {
+    return new URL(url).pathname.toLowerCase().endsWith('.pdf');
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Escape text for inclusion in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Tidy the text of one page: collapse runs of spaces and rejoin words
+ * hyphenated across line breaks
+ */
+function cleanPageText(text: string): string {
+  return text
+    .replace(/(\w)-\n(\w)/g, '$1$2')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Read the per-page text and document info of a loaded PDF
+ */
+async function readPdf(pdf: Awaited<ReturnType<typeof getDocumentProxy>>) {
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+  const { info } = await getMeta(pdf, { parseDates: true });
+  return { totalPages, text, info };
+}
+
+/**
+ * Extract the text of a PDF locally, one section per page. The plain text
+ * marks each page with "--- Page N ---" so the boundaries survive into the
+ * analysis prompt; the markdown uses a heading per page.
+ */
+export async function extractPdfContent(data: Buffer, url: string): Promise<ArticleContent> {
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  // Free pdf.js's document state, which otherwise builds up in watch mode
+  const { totalPages, text, info } = await readPdf(pdf).finally(() => pdf.destroy());
+
+  const pages = text
+    .map((pageText, index) => ({ number: index + 1, text: cleanPageText(pageText) }))
+    .filter(page => page.text.length > 0);
+
+  const textContent = pages
+    .map(page => `--- Page ${page.number} ---\n${page.text}`)
+    .join('\n\n');
+  const markdownContent = pages
+    .map(page => `## Page ${page.number}\n\n${page.text}`)
+    .join('\n\n');
+  const content = pages
+    .map(page => `<section data-page="${page.number}">\n${page.text
+      .split(/\n{2,}/)
+      .map(paragraph => `<p>${escapeHtml(paragraph)}</p>`)
+      .join('\n')}\n</section>`)
+    .join('\n');
+
+  const creationDate = info?.CreationDate instanceof Date && !isNaN(info.CreationDate.getTime())
+    ? info.CreationDate.toISOString()
+    : '';
+  const bodyText = pages.map(page => page.text).join('\n\n');
+  const noTextFailure: ScrapeFailure = {
+    code: 'no-content',
+    status: 200,
+    retryable: false,
+    message: `PDF has no extractable text (${totalPages} pages, possibly scanned)`,
+  };
+
+  return {
+    title: typeof info?.Title === 'string' ? info.Title.trim() : '',
+    content,
+    textContent,
+    markdownContent,
+    length: bodyText.length,
+    excerpt: bodyText.substring(0, 200) + (bodyText.length > 200 ? '...' : ''),
+    byline: typeof info?.Author === 'string' ? info.Author.trim() : '',
+    siteName: new URL(url).hostname,
+    date: creationDate,
+    confidence: pages.length > 0 ? 1 : 0,
+    documentType: 'pdf',
+    pageCount: totalPages,
+    metadata: {
+      schemaType: 'PDF',
+      headline: typeof info?.Title === 'string' && info.Title.trim() ? info.Title.trim() : undefined,
+      authors: typeof info?.Author === 'string' && info.Author.trim() ? [info.Author.trim()] : [],
+      datePublished: creationDate || undefined,
+      keywords: typeof info?.Keywords === 'string' ? info.Keywords.split(/[,;]/).map((keyword: string) => keyword.trim()).filter(Boolean) : [],
+    },
+    // Scanned documents have pages but no text layer
+    failure: pages.length === 0 ? noTextFailure : undefined,
+    error: pages.length === 0 ? noTextFailure.message : undefined,
+  };
+}
@@ -0,0 +1,239 @@
+// src/scraper/robots.ts
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fetch } from 'undici';
+import CONFIG from '../config.js';
+
+// How long a fetched robots.txt is trusted before it is fetched again
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+
+// A single Allow/Disallow line
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+// The rules that apply to our user agent on one origin
+export interface RobotsRules {
+  rules: RobotsRule[];
+  crawlDelay?: number; // Seconds
+  fetchedAt: string;
+}
+
+// Result of checking a URL against robots.txt
+export interface RobotsCheck {
+  allowed: boolean;
+  crawlDelay?: number; // Seconds
+}
+
+// Set up robots cache file path
+const robotsCachePath = path.join(CONFIG.outputDir, 'robots_cache.json');
+
+let robotsCache: Record<string, RobotsRules> = {};
+let loaded = false;
+const pendingFetches = new Map<string, Promise<RobotsRules>>();
+
+// Origins whose robots.txt could not be fetched, remembered for this process only
+const unavailableRobots = new Map<string, RobotsRules>();
+
+/**
+ * Get the product token robots.txt groups are matched against ("mybot" for "MyBot/1.0 (+url)")
+ */
+function getUserAgentToken(): string {
+  return CONFIG.scraper.userAgent.split(/[\/\s]/)[0].toLowerCase();
+}
+
+/**
+ * Parse a robots.txt file, keeping the groups for our user agent (or "*")
+ */
+export function parseRobotsTxt(text: string, userAgentToken = getUserAgentToken()): Omit<RobotsRules, 'fetchedAt'> {
+  const groups: { agents: string[]; rules: RobotsRule[]; crawlDelay?: number }[] = [];
+  let current: (typeof groups)[number] | undefined;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) {
+      continue;
+    }
+
+    const field = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) {
+      continue;
+    }
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything
+      if (value) {
+        current.rules.push({ allow: field === 'allow', path: value });
+      }
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay) && delay >= 0) {
+        current.crawlDelay = delay;
+      }
+    }
+  }
+
+  // RFC 9309: the product token must equal the group's name (ignoring case),
+  // otherwise the "*" groups apply; all groups for the same agent are combined
+  const ownGroups = groups.filter(candidate => candidate.agents.includes(userAgentToken.toLowerCase()));
+  const matched = ownGroups.length > 0 ? ownGroups : groups.filter(candidate => candidate.agents.includes('*'));
+
+  return {
+    rules: matched.flatMap(group => group.rules),
+    crawlDelay: matched.find(group => group.crawlDelay !== undefined)?.crawlDelay,
+  };
+}
+
+/**
+ * Check whether a robots.txt path pattern (with * and $) matches a URL path
+ */
+function matchesRule(pattern: string, urlPath: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const regex = (anchored ? pattern.slice(0, -1) : pattern)
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*');
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(urlPath);
+}
+
+/**
+ * Decide whether a path is allowed: the longest matching rule wins, and Allow wins a tie
+ */
+export function isPathAllowed(rules: RobotsRule[], urlPath: string): boolean {
+  let best: RobotsRule | undefined;
+
+  for (const rule of rules) {
+    if (!matchesRule(rule.path, urlPath)) {
+      continue;
+    }
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+/**
+ * Load cached robots rules from disk (once per process)
+ */
+async function loadRobotsCache(): Promise<void> {
+  if (loaded) {
+    return;
+  }
+
+  try {
+    const data = await fs.readFile(robotsCachePath, 'utf-8');
+    robotsCache = JSON.parse(data) as Record<string, RobotsRules>;
+  } catch (error) {
+    robotsCache = {};
+  }
+
+  loaded = true;
+}
+
+/**
+ * Save cached robots rules to disk
+ */
+async function saveRobotsCache(): Promise<void> {
+  try {
+    await fs.mkdir(path.dirname(robotsCachePath), { recursive: true });
+    await fs.writeFile(robotsCachePath, JSON.stringify(robotsCache, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('Error saving robots.txt cache:', error);
+  }
+}
+
+/**
+ * Fetch and parse robots.txt for an origin. A missing file (4xx) allows
+ * everything; a server error disallows everything for now, as RFC 9309 asks.
+ */
+async function fetchRobotsRules(origin: string): Promise<RobotsRules> {
+  const fetchedAt = new Date().toISOString();
+
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': CONFIG.scraper.userAgent },
+      signal: AbortSignal.timeout(CONFIG.scraper.requestTimeout),
+    });
+
+    if (response.status >= 500) {
+      console.warn(`robots.txt for ${origin} returned ${response.status}, treating the site as disallowed`);
+      const rules = { rules: [{ allow: false, path: '/' }], fetchedAt };
+      unavailableRobots.set(origin, rules);
+      return rules;
+    }
+
+    const rules = response.ok
+      ? { ...parseRobotsTxt(await response.text()), fetchedAt }
+      : { rules: [], fetchedAt };
+
+    robotsCache[origin] = rules;
+    await saveRobotsCache();
+    return rules;
+  } catch (error: any) {
+    // The page request will report its own network error
+    console.warn(`Could not fetch robots.txt for ${origin}: ${error.message}`);
+    const rules = { rules: [], fetchedAt };
+    unavailableRobots.set(origin, rules);
+    return rules;
+  }
+}
+
+/**
+ * Get the robots rules for an origin, from the cache while it is fresh
+ */
+async function getRobotsRules(origin: string): Promise<RobotsRules> {
+  await loadRobotsCache();
+
+  const cached = robotsCache[origin] || unavailableRobots.get(origin);
+  if (cached && Date.now() - new Date(cached.fetchedAt).getTime() < ROBOTS_TTL_MS) {
+    return cached;
+  }
+
+  // Share one request between articles from the same site
+  let pending = pendingFetches.get(origin);
+  if (!pending) {
+    pending = fetchRobotsRules(origin).finally(() => pendingFetches.delete(origin));
+    pendingFetches.set(origin, pending);
+  }
+  return pending;
+}
+
+/**
+ * Check a URL against its site's robots.txt
+ */
+export async function checkRobots(url: string): Promise<RobotsCheck> {
+  if (!CONFIG.scraper.respectRobotsTxt) {
+    return { allowed: true };
+  }
+
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch (e) {
+    return { allowed: true };
+  }
+
+  const robots = await getRobotsRules(parsedUrl.origin);
+  return {
+    allowed: isPathAllowed(robots.rules, `${parsedUrl.pathname}${parsedUrl.search}`),
+    crawlDelay: robots.crawlDelay,
+  };
+}
@@ -0,0 +1,201 @@
+// src/scraper/scrapeFailures.ts
+
+// Why a scrape produced no usable article text
+export const SCRAPE_FAILURE_CODES = [
+  'http-forbidden',      // 401/403
+  'http-not-found',      // 404/410
+  'http-rate-limited',   // 429
+  'http-server-error',   // 5xx
+  'http-error',          // Any other non-2xx status
+  'timeout',
+  'dns',
+  'connection',          // Refused, reset or closed
+  'tls',
+  'unsupported-content', // Neither a web page nor a PDF
+  'paywall',
+  'consent-wall',
+  'captcha',
+  'javascript-required',
+  'no-content',          // Fetched fine but no text could be extracted
+  'unknown',
+] as const;
+export type ScrapeFailureCode = typeof SCRAPE_FAILURE_CODES[number];
+
+// A classified scrape failure
+export interface ScrapeFailure {
+  code: ScrapeFailureCode;
+  status?: number; // HTTP status, when a response was received
+  retryable: boolean; // Whether trying again later could succeed
+  message: string;
+}
+
+/**
+ * Error thrown inside the fetch/retry loop so the failure survives to the caller
+ */
+export class ScrapeError extends Error {
+  constructor(public failure: ScrapeFailure) {
+    super(failure.message);
+    this.name = 'ScrapeError';
+  }
+}
+
+// Below this many characters of extracted text a page is treated as a
+// teaser or shell, and soft-failure markers in the text are believed
+const THIN_CONTENT_LENGTH = 1000;
+
+// Consent banners, comment-form captchas and <noscript> notes also appear on
+// pages with a real short article, so their markup only counts when next to
+// nothing was extracted
+const NEAR_EMPTY_CONTENT_LENGTH = 200;
+
+// Markers of pages that return 200 but hold no article. The first match wins.
+// Title patterns apply whatever the page length; text patterns (matched
+// against the extracted text) and script patterns (matched against the raw
+// page, for JSON-LD) only to thin pages; markup patterns are matched against
+// the page without its scripts and styles, so a consent manager's loader
+// script is not a wall, and only up to markupMaxLength characters of text.
+const SOFT_FAILURES: {
+  code: ScrapeFailureCode;
+  description: string;
+  title?: RegExp;
+  markup?: RegExp;
+  markupMaxLength?: number;
+  script?: RegExp;
+  text?: RegExp;
+}[] = [
+  {
+    code: 'captcha',
+    description: 'captcha or bot challenge',
+    title: /<title[^>]*>\s*(just a moment|attention required|are you a (robot|human)|security check|access denied)/i,
+    markup: /g-recaptcha|h-captcha|cf-challenge|challenge-platform|px-captcha|data-sitekey=/i,
+    text: /verify (that )?you are (a )?human|complete the (security check|captcha)/i,
+  },
+  {
+    code: 'paywall',
+    description: 'paywall',
+    // A paywall leaves a teaser of a few paragraphs behind
+    markup: /class="[^"]*\b(paywall|meter(ed)?-?(wall|content)|subscriber-only|premium-content)/i,
+    markupMaxLength: THIN_CONTENT_LENGTH,
+    script: /"isAccessibleForFree"\s*:\s*"?false/i,
+    text: /subscribe (now )?to (continue|keep) reading|already a subscriber|for subscribers only|(article|story|content) is (only )?(available )?(to|for) subscribers/i,
+  },
+  {
+    code: 'consent-wall',
+    description: 'cookie consent wall',
+    markup: /onetrust|cookielaw|fc-consent|qc-cmp|didomi|sp_message_container|consent-(wall|banner|form)/i,
+    text: /we value your privacy|(manage|cookie) (settings|preferences)|accept (all )?cookies/i,
+  },
+  {
+    code: 'javascript-required',
+    description: 'JavaScript-only shell',
+    markup: /<noscript[^>]*>[^<]*(enable|turn on) javascript/i,
+    text: /(enable|turn on) javascript|javascript is (disabled|required|not enabled)|requires javascript/i,
+  },
+];
+
+/**
+ * Classify a non-2xx HTTP response
+ */
+export function classifyHttpStatus(status: number): ScrapeFailure {
+  const message = `HTTP error! Status: ${status}`;
+
+  if (status === 401 || status === 403) {
+    return { code: 'http-forbidden', status, retryable: false, message };
+  }
+  if (status === 404 || status === 410) {
+    return { code: 'http-not-found', status, retryable: false, message };
+  }
+  if (status === 429) {
+    return { code: 'http-rate-limited', status, retryable: true, message };
+  }
+  if (status >= 500) {
+    return { code: 'http-server-error', status, retryable: true, message };
+  }
+  return { code: 'http-error', status, retryable: status === 408, message };
+}
+
+/**
+ * Classify an error thrown while fetching (network, TLS, timeout).
+ * undici puts the system error code on error.cause.
+ */
+export function classifyFetchError(error: any): ScrapeFailure {
+  if (error instanceof ScrapeError) {
+    return error.failure;
+  }
+
+  // "fetch failed" says nothing on its own; the cause has the detail
+  const message = error?.cause?.message
+    ? `${error.message}: ${error.cause.message}`
+    : error?.message || String(error);
+  const code = String(error?.cause?.code || error?.code || '');
+
+  if (error?.name === 'TimeoutError' || error?.name === 'AbortError' || /TIMEOUT|ETIMEDOUT/.test(code)) {
+    return { code: 'timeout', retryable: true, message };
+  }
+  if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') {
+    // EAI_AGAIN is a temporary resolver failure; ENOTFOUND means the name doesn't exist
+    return { code: 'dns', retryable: code === 'EAI_AGAIN', message };
+  }
+  if (/CERT|TLS|SSL/.test(code)) {
+    return { code: 'tls', retryable: false, message };
+  }
+  if (/ECONNREFUSED|ECONNRESET|EPIPE|EHOSTUNREACH|ENETUNREACH|UND_ERR_SOCKET|UND_ERR_CLOSED/.test(code)) {
+    return { code: 'connection', retryable: true, message };
+  }
+  return { code: 'unknown', retryable: true, message };
+}
+
+/**
+ * Check whether a content type is one the extractor can read as a web page
+ */
+export function isHtmlContentType(contentType: string | null): boolean {
+  // Servers that don't say are assumed to be sending a page
+  return !contentType || /text\/|html|xml/i.test(contentType);
+}
+
+/**
+ * Look for signs that a 200 response is a paywall, consent wall, captcha or
+ * JavaScript shell rather than the article
+ */
+export function detectSoftFailure(html: string, extractedText: string): ScrapeFailure | undefined {
+  const isThin = extractedText.length < THIN_CONTENT_LENGTH;
+  const markup = html.replace(/<(script|style)\b[\s\S]*?<\/\1\s*>|<link\b[^>]*>/gi, '');
+
+  for (const rule of SOFT_FAILURES) {
+    const matched = rule.title?.test(html)
+      || (isThin && (rule.text?.test(extractedText) || rule.script?.test(html)))
+      || (extractedText.length < (rule.markupMaxLength ?? NEAR_EMPTY_CONTENT_LENGTH) && rule.markup?.test(markup));
+    if (matched) {
+      return {
+        code: rule.code,
+        status: 200,
+        retryable: false,
+        message: `Page looks like a ${rule.description} (${extractedText.length} chars extracted)`,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Count failures by code, for the end-of-run breakdown
+ */
+export function countScrapeFailures(articles: { failure?: ScrapeFailure }[]): Record<string, number> {
+  return articles.reduce<Record<string, number>>((counts, article) => {
+    if (article.failure) {
+      counts[article.failure.code] = (counts[article.failure.code] || 0) + 1;
+    }
+    return counts;
+  }, {});
+}
+
+/**
+ * Describe a failure for reports ("http-forbidden (HTTP 403)")
+ */
+export function formatScrapeFailure(failure?: ScrapeFailure): string {
+  if (!failure) {
+    return '';
+  }
+  return failure.status ? `${failure.code} (HTTP ${failure.status})` : failure.code;
+}
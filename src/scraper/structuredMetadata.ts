@@ -0,0 +1,157 @@
+// src/scraper/structuredMetadata.ts
+import * as cheerio from 'cheerio';
+import { toIsoDate } from '../utils/textUtils.js';
+
+// schema.org types that describe the article itself, most specific first
+const ARTICLE_TYPES = [
+  'NewsArticle', 'ReportageNewsArticle', 'AnalysisNewsArticle', 'OpinionNewsArticle',
+  'BackgroundNewsArticle', 'ReviewNewsArticle', 'Report', 'ScholarlyArticle',
+  'BlogPosting', 'Article', 'WebPage',
+];
+
+// Article metadata published by the page for search engines and social sites
+export interface PageMetadata {
+  schemaType?: string; // e.g. NewsArticle, Report
+  headline?: string;
+  description?: string;
+  authors: string[];
+  publisher?: string;
+  publisherType?: string; // e.g. NewsMediaOrganization, GovernmentOrganization
+  datePublished?: string; // ISO 8601
+  dateModified?: string; // ISO 8601
+  section?: string;
+  keywords: string[];
+}
+
+type JsonLdNode = Record<string, any>;
+
+/**
+ * Get the @type of a JSON-LD node as a list (it may be a string or an array)
+ */
+function getTypes(node: JsonLdNode): string[] {
+  const type = node['@type'];
+  return (Array.isArray(type) ? type : [type]).filter((value): value is string => typeof value === 'string');
+}
+
+/**
+ * Read every JSON-LD block on the page and flatten arrays and @graph containers
+ * into one list of nodes. Blocks that don't parse are ignored.
+ */
+function readJsonLdNodes($: cheerio.CheerioAPI): JsonLdNode[] {
+  const nodes: JsonLdNode[] = [];
+  const collect = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === 'object') {
+      const node = value as JsonLdNode;
+      nodes.push(node);
+      if (node['@graph']) {
+        collect(node['@graph']);
+      }
+    }
+  };
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    const text = $(element).contents().text()
+      .replace(/^\s*<!--|-->\s*$/g, '')
+      .replace(/^\s*\/\/\s*<!\[CDATA\[|\/\/\s*\]\]>\s*$/g, '');
+    try {
+      collect(JSON.parse(text));
+    } catch (e) {
+      // Sites ship broken JSON-LD often enough that this isn't worth a warning
+    }
+  });
+
+  return nodes;
+}
+
+/**
+ * Follow an {"@id": ...} reference to the node it points at, if it is on the page
+ */
+function resolveReference(value: any, nodes: JsonLdNode[]): any {
+  if (value && typeof value === 'object' && !Array.isArray(value) && value['@id'] && Object.keys(value).length === 1) {
+    return nodes.find(node => node['@id'] === value['@id']) || value;
+  }
+  return value;
+}
+
+/**
+ * Get the names from a schema.org Person/Organization value (string, object or array)
+ */
+function getNames(value: any, nodes: JsonLdNode[]): string[] {
+  return (Array.isArray(value) ? value : [value])
+    .map(item => resolveReference(item, nodes))
+    .map(item => (typeof item === 'string' ? item : item?.name))
+    .filter((name): name is string => typeof name === 'string' && name.trim().length > 0)
+    .map(name => name.trim());
+}
+
+/**
+ * Split a keywords value, which may be a comma-separated string or an array
+ */
+function getKeywords(value: any): string[] {
+  const keywords = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return keywords
+    .filter((keyword): keyword is string => typeof keyword === 'string')
+    .map(keyword => keyword.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Get the first string from a value that may be an array
+ */
+function getString(value: any): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' && first.trim() ? first.trim() : undefined;
+}
+
+/**
+ * Pick the node that describes the article: the most specific article type wins
+ */
+function findArticleNode(nodes: JsonLdNode[]): JsonLdNode | undefined {
+  for (const type of ARTICLE_TYPES) {
+    const node = nodes.find(candidate => getTypes(candidate).includes(type));
+    if (node) {
+      return node;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the page's JSON-LD (schema.org NewsArticle, Article, Report...) and
+ * OpenGraph/article meta tags. JSON-LD wins where both say something; dates
+ * are normalised to ISO 8601. Call before scripts and meta tags are stripped.
+ */
+export function extractStructuredMetadata($: cheerio.CheerioAPI): PageMetadata {
+  const nodes = readJsonLdNodes($);
+  const article = findArticleNode(nodes);
+  const publisherNode = resolveReference(article?.publisher, nodes);
+  const publisher = Array.isArray(publisherNode) ? resolveReference(publisherNode[0], nodes) : publisherNode;
+
+  const meta = (property: string): string | undefined =>
+    $(`meta[property="${property}"], meta[name="${property}"]`).first().attr('content')?.trim() || undefined;
+  const metaAll = (property: string): string[] =>
+    $(`meta[property="${property}"]`).toArray()
+      .map(element => $(element).attr('content')?.trim() || '')
+      .filter(Boolean);
+
+  const articleTypes = article ? getTypes(article) : [];
+  const authors = article ? getNames(article.author, nodes) : [];
+  // article:author is often a profile URL rather than a name
+  const metaAuthors = [...metaAll('article:author'), meta('author') || '']
+    .filter(author => author && !/^https?:\/\//.test(author));
+
+  return {
+    schemaType: articleTypes.find(type => ARTICLE_TYPES.includes(type)) || articleTypes[0] || meta('og:type'),
+    headline: getString(article?.headline) || getString(article?.name) || meta('og:title') || meta('twitter:title'),
+    description: getString(article?.description) || meta('description') || meta('og:description') || meta('twitter:description'),
+    authors: authors.length > 0 ? authors : [...new Set(metaAuthors)],
+    publisher: (typeof publisher === 'string' ? publisher : getString(publisher?.name)) || meta('og:site_name') || meta('application-name'),
+    publisherType: publisher && typeof publisher === 'object' ? getTypes(publisher)[0] : undefined,
+    datePublished: toIsoDate(getString(article?.datePublished) || meta('article:published_time') || meta('date')) || undefined,
+    dateModified: toIsoDate(getString(article?.dateModified) || meta('article:modified_time') || meta('og:updated_time')) || undefined,
+    section: getString(article?.articleSection) || meta('article:section'),
+    keywords: article?.keywords ? getKeywords(article.keywords) : metaAll('article:tag'),
+  };
+}
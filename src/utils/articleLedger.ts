@@ -0,0 +1,235 @@
+// src/utils/articleLedger.ts
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import CONFIG from '../config.js';
+import { ArticleInput } from '../scraper/index.js';
+import { AnalysisStatus, AnalyzedArticle } from '../analysis/index.js';
+import { normalizeUrl } from './urlUtils.js';
+import { CriteriaResolver } from './criteriaUtils.js';
+
+// Record of what has already been done for a single article
+export interface LedgerEntry {
+  link: string;
+  guid?: string;
+  title: string;
+  firstSeen: string;
+  scrapedAt?: string;
+  analyzedAt?: string;
+  analysisStatus?: AnalysisStatus; // 'analyzed' or 'too-short'; entries from before this was kept were analyzed
+  criteriaHash?: string;
+  contentHash?: string; // Of the content that was too short, so new content is tried again
+  relevanceScore?: number;
+}
+
+interface LedgerData {
+  version: number;
+  entries: Record<string, LedgerEntry>;
+}
+
+// Set up ledger file path
+const ledgerPath = path.join(CONFIG.outputDir, 'article_ledger.json');
+
+let ledger: LedgerData = { version: 1, entries: {} };
+let guidIndex = new Map<string, string>();
+let loaded = false;
+
+/**
+ * Hash criteria text so entries can tell which criteria they were scored with
+ */
+export function hashCriteria(criteria: string): string {
+  return hashText(criteria);
+}
+
+/**
+ * Short sha256 of trimmed text
+ */
+function hashText(text: string): string {
+  return createHash('sha256').update(text.trim()).digest('hex').substring(0, 16);
+}
+
+/**
+ * Check whether an article skipped as too short still has the same content.
+ * Articles not scraped yet are taken to be unchanged, so they aren't
+ * scraped again just to find out.
+ */
+function isSameShortContent(entry: LedgerEntry, article: ArticleInput): boolean {
+  if (entry.analysisStatus !== 'too-short' || !('content' in article)) {
+    return true;
+  }
+  return entry.contentHash === hashText(String(article.content || ''));
+}
+
+/**
+ * Get the ledger key for an article (its canonical URL)
+ */
+function getLedgerKey(article: ArticleInput): string {
+  return normalizeUrl(article.link);
+}
+
+/**
+ * Rebuild the guid lookup after loading
+ */
+function rebuildGuidIndex(): void {
+  guidIndex = new Map();
+  for (const [key, entry] of Object.entries(ledger.entries)) {
+    if (entry.guid) {
+      guidIndex.set(entry.guid, key);
+    }
+  }
+}
+
+/**
+ * Load the ledger from disk (once per process)
+ */
+export async function loadLedger(): Promise<void> {
+  if (loaded) {
+    return;
+  }
+
+  try {
+    const data = await fs.readFile(ledgerPath, 'utf-8');
+    ledger = JSON.parse(data) as LedgerData;
+    console.log(`Loaded article ledger with ${Object.keys(ledger.entries).length} entries`);
+  } catch (error) {
+    console.log('No existing article ledger found, creating new one');
+    ledger = { version: 1, entries: {} };
+  }
+
+  rebuildGuidIndex();
+  loaded = true;
+}
+
+/**
+ * Save the ledger to disk
+ */
+export async function saveLedger(): Promise<void> {
+  try {
+    await fs.mkdir(path.dirname(ledgerPath), { recursive: true });
+    await fs.writeFile(ledgerPath, JSON.stringify(ledger, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('Error saving article ledger:', error);
+  }
+}
+
+/**
+ * Find the ledger entry for an article by canonical URL, then by guid
+ */
+export function getLedgerEntry(article: ArticleInput): LedgerEntry | undefined {
+  const entry = ledger.entries[getLedgerKey(article)];
+  if (entry) {
+    return entry;
+  }
+
+  const guidKey = article.guid ? guidIndex.get(article.guid) : undefined;
+  return guidKey ? ledger.entries[guidKey] : undefined;
+}
+
+/**
+ * Get or create the ledger entry for an article
+ */
+function upsertEntry(article: ArticleInput): LedgerEntry {
+  const existing = getLedgerEntry(article);
+  if (existing) {
+    return existing;
+  }
+
+  const key = getLedgerKey(article);
+  const entry: LedgerEntry = {
+    link: article.link,
+    guid: article.guid || undefined,
+    title: article.title,
+    firstSeen: new Date().toISOString(),
+  };
+
+  ledger.entries[key] = entry;
+  if (entry.guid) {
+    guidIndex.set(entry.guid, key);
+  }
+
+  return entry;
+}
+
+/**
+ * Turn a fixed criteria string or a per-article resolver into a resolver
+ */
+function toCriteriaResolver(criteria: string | CriteriaResolver): CriteriaResolver {
+  return typeof criteria === 'string' ? () => criteria : criteria;
+}
+
+/**
+ * Split articles into those still needing work and those already
+ * analyzed (or skipped as too short) with the same criteria
+ */
+export async function partitionByLedger<T extends ArticleInput>(
+  articles: T[],
+  criteria: string | CriteriaResolver
+): Promise<{ fresh: T[]; seen: T[] }> {
+  await loadLedger();
+
+  const getCriteria = toCriteriaResolver(criteria);
+  const fresh: T[] = [];
+  const seen: T[] = [];
+
+  for (const article of articles) {
+    const entry = getLedgerEntry(article);
+    if (entry?.analyzedAt && entry.criteriaHash === hashCriteria(getCriteria(article)) && isSameShortContent(entry, article)) {
+      seen.push(article);
+    } else {
+      fresh.push(article);
+    }
+  }
+
+  return { fresh, seen };
+}
+
+/**
+ * Record that articles were scraped in this run
+ */
+export async function recordScraped(articles: ArticleInput[]): Promise<void> {
+  await loadLedger();
+
+  const now = new Date().toISOString();
+  for (const article of articles) {
+    upsertEntry(article).scrapedAt = now;
+  }
+
+  await saveLedger();
+}
+
+/**
+ * Check whether an article was left unscored by a failed or skipped request
+ */
+export function isFailedAnalysis(article: AnalyzedArticle): boolean {
+  return article.analysisStatus === 'failed' || article.analysisStatus === 'skipped';
+}
+
+/**
+ * Record that articles were analyzed with the given criteria, or skipped as
+ * too short to analyze. Articles whose analysis failed are left unmarked so
+ * they are retried.
+ */
+export async function recordAnalyzed(
+  articles: AnalyzedArticle[],
+  criteria: string | CriteriaResolver
+): Promise<void> {
+  await loadLedger();
+
+  const now = new Date().toISOString();
+  const getCriteria = toCriteriaResolver(criteria);
+
+  for (const article of articles) {
+    if (isFailedAnalysis(article)) {
+      continue;
+    }
+
+    const entry = upsertEntry(article);
+    entry.analyzedAt = now;
+    entry.analysisStatus = article.analysisStatus;
+    entry.criteriaHash = hashCriteria(getCriteria(article));
+    entry.contentHash = article.analysisStatus === 'too-short' ? hashText(article.content || '') : undefined;
+    entry.relevanceScore = article.relevanceScore ?? undefined;
+  }
+
+  await saveLedger();
+}
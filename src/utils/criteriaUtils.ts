@@ -2,6 +2,7 @@
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import type { ArticleInput } from '../scraper/index.js';
 
 // Get directory of current module
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -10,6 +11,10 @@ const projectRoot = path.resolve(__dirname, '../..');
 // Default criteria file paths
 const DEFAULT_CRITERIA_FILE = path.join(projectRoot, 'promptCriteria.txt');
 const ENV_CRITERIA_PATH = process.env.CRITERIA_FILE_PATH;
+const CRITERIA_PROFILES_DIR = process.env.CRITERIA_PROFILES_DIR || path.join(projectRoot, 'criteria');
+
+// Returns the criteria an article should be analyzed with
+export type CriteriaResolver = (article: ArticleInput) => string;
 
 /**
  * Load analysis criteria from file
@@ -105,4 +110,61 @@ export async function saveAnalysisCriteria(criteria: string): Promise<string> {
     console.error(`Could not save criteria to file: ${savePath}`, error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Load a named criteria profile from the profiles directory
+ * (criteria/<name>.txt by default). A name that looks like a path is read directly.
+ */
+export async function loadCriteriaProfile(name: string): Promise<string> {
+  const profilePath = name.includes('/') || name.endsWith('.txt')
+    ? path.resolve(projectRoot, name)
+    : path.join(CRITERIA_PROFILES_DIR, `${name}.txt`);
+  
+  return fs.readFile(profilePath, 'utf8');
+}
+
+/**
+ * Build a resolver that picks each article's criteria from its feed's
+ * criteria profile, falling back to the default criteria
+ */
+export async function createCriteriaResolver(
+  articles: ArticleInput[],
+  defaultCriteria: string
+): Promise<CriteriaResolver> {
+  const profiles = new Map<string, string>();
+  const profileNames = new Set(
+    articles.map(article => article.feed?.criteriaProfile).filter((name): name is string => Boolean(name))
+  );
+  
+  for (const name of profileNames) {
+    try {
+      profiles.set(name, await loadCriteriaProfile(name));
+      console.log(`Loaded criteria profile: ${name}`);
+    } catch (error) {
+      console.warn(`Could not load criteria profile "${name}", using default criteria for its feeds`);
+    }
+  }
+  
+  return (article: ArticleInput) => {
+    const profile = article.feed?.criteriaProfile;
+    return (profile && profiles.get(profile)) || defaultCriteria;
+  };
+}
+
+/**
+ * Group articles by the criteria they should be analyzed with
+ */
+export function groupByCriteria<T extends ArticleInput>(
+  articles: T[],
+  getCriteria: CriteriaResolver
+): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  
+  for (const article of articles) {
+    const criteria = getCriteria(article);
+    groups.set(criteria, [...(groups.get(criteria) || []), article]);
+  }
+  
+  return groups;
+}
@@ -2,11 +2,22 @@
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 import { parse } from 'fast-csv';
+import { z } from 'zod';
 import { createReadStream } from 'node:fs';
 import { format as formatCsv } from '@fast-csv/format';
 import { createWriteStream } from 'node:fs';
-import { ArticleInput, ArticleOutput } from '../scraper/index.js';
+import { ArticleInput, ArticleOutput, CONTENT_SOURCES } from '../scraper/index.js';
+import { DOCUMENT_TYPES } from '../scraper/articleExtractor.js';
+import { SCRAPE_FAILURE_CODES, ScrapeFailure, formatScrapeFailure } from '../scraper/scrapeFailures.js';
+import { PageMetadata } from '../scraper/structuredMetadata.js';
 import { AnalyzedArticle } from '../analysis/index.js';
+import { unwrapGoogleRedirect } from './urlUtils.js';
+
+// Columns that hold one of a fixed set of values. A hand-edited or foreign
+// CSV may hold anything else, which is read as unset (or as an unknown failure)
+const ContentSourceColumn = z.enum(CONTENT_SOURCES).optional().catch(undefined);
+const DocumentTypeColumn = z.enum(DOCUMENT_TYPES).optional().catch(undefined);
+const FailureCodeColumn = z.enum(SCRAPE_FAILURE_CODES).catch('unknown');
 
 /**
  * Read article links from CSV (basic format for initial scraping)
@@ -19,10 +30,17 @@ export async function readArticleLinks(filePath: string): Promise<ArticleInput[]
       .pipe(parse({ headers: true, trim: true }))
       .on('error', error => reject(error))
       .on('data', (row: any) => {
+        // Older CSVs only have the raw feed link, so unwrap it here too
+        const link = row['Link'] || '';
         articles.push({
           alertName: row['Alert Name'] || '',
           title: row['Title'] || '',
-          link: row['Link'] || '',
+          link: unwrapGoogleRedirect(link),
+          originalLink: row['Original Link'] || link,
+          pubDate: row['Published'] || undefined,
+          guid: row['GUID'] || undefined,
+          feedTitle: row['Feed Title'] || undefined,
+          snippet: row['Snippet'] || undefined,
         });
       })
       .on('end', () => resolve(articles));
@@ -40,18 +58,94 @@ export async function readScrapedArticles(filePath: string): Promise<ArticleOutp
       .pipe(parse({ headers: true, trim: true }))
       .on('error', error => reject(error))
       .on('data', (row: any) => {
+        const link = row['Link'] || '';
         articles.push({
           alertName: row['Alert Name'] || '',
           title: row['Title'] || '',
-          link: row['Link'] || '',
+          link: unwrapGoogleRedirect(link),
+          originalLink: row['Original Link'] || link,
+          pubDate: row['Published'] || undefined,
+          guid: row['GUID'] || undefined,
+          feedTitle: row['Feed Title'] || undefined,
+          snippet: row['Snippet'] || undefined,
+          pageDate: row['Page Date'] || undefined,
+          documentType: DocumentTypeColumn.parse(row['Document Type'] || undefined),
+          pageCount: row['Page Count'] ? parseInt(row['Page Count'], 10) : undefined,
           content: row['Content'] || '',
-          error: row['Error'] || undefined
+          contentSource: ContentSourceColumn.parse(row['Content Source'] || undefined),
+          markdownContent: row['Markdown Content'] || undefined,
+          excerpt: row['Excerpt'] || undefined,
+          byline: row['Byline'] || undefined,
+          siteName: row['Site Name'] || undefined,
+          language: row['Language'] || undefined,
+          length: row['Length'] ? parseInt(row['Length'], 10) : undefined,
+          metadata: readPageMetadata(row),
+          error: row['Error'] || undefined,
+          failure: readScrapeFailure(row)
         });
       })
       .on('end', () => resolve(articles));
   });
 }
 
+/**
+ * Rebuild a scrape failure from its CSV columns
+ */
+function readScrapeFailure(row: any): ScrapeFailure | undefined {
+  if (!row['Failure Code']) {
+    return undefined;
+  }
+  
+  return {
+    code: FailureCodeColumn.parse(row['Failure Code']),
+    status: row['HTTP Status'] ? parseInt(row['HTTP Status'], 10) : undefined,
+    retryable: row['Retryable'] === 'true',
+    message: row['Error'] || '',
+  };
+}
+
+/**
+ * Split a '; '-joined CSV cell back into a list
+ */
+function splitList(value?: string): string[] {
+  return (value || '').split(';').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Rebuild page metadata from its CSV columns
+ */
+function readPageMetadata(row: any): PageMetadata | undefined {
+  const metadata: PageMetadata = {
+    schemaType: row['Schema Type'] || undefined,
+    authors: splitList(row['Authors']),
+    publisher: row['Publisher'] || undefined,
+    publisherType: row['Publisher Type'] || undefined,
+    datePublished: row['Date Published'] || undefined,
+    dateModified: row['Date Modified'] || undefined,
+    section: row['Section'] || undefined,
+    keywords: splitList(row['Keywords']),
+  };
+  
+  const hasValues = Object.values(metadata).some(value => Array.isArray(value) ? value.length > 0 : Boolean(value));
+  return hasValues ? metadata : undefined;
+}
+
+/**
+ * Columns for the page metadata of an article
+ */
+function pageMetadataColumns(metadata?: PageMetadata): Record<string, string> {
+  return {
+    'Schema Type': ensureCsvSafeValue(metadata?.schemaType),
+    'Authors': ensureCsvSafeValue(metadata?.authors.join('; ')),
+    'Publisher': ensureCsvSafeValue(metadata?.publisher),
+    'Publisher Type': ensureCsvSafeValue(metadata?.publisherType),
+    'Date Published': ensureCsvSafeValue(metadata?.datePublished),
+    'Date Modified': ensureCsvSafeValue(metadata?.dateModified),
+    'Section': ensureCsvSafeValue(metadata?.section),
+    'Keywords': ensureCsvSafeValue(metadata?.keywords.join('; ')),
+  };
+}
+
 /**
  * Ensure CSV-safe values by converting objects to strings
  */
@@ -73,7 +167,7 @@ function ensureCsvSafeValue(value: any): string {
  * Write scraped articles to CSV
  */
 export async function writeScrapedArticles(
-  articles: (ArticleInput & { content: string; error?: string })[],
+  articles: ArticleOutput[],
   outputPath: string
 ): Promise<string> {
   try {
@@ -92,8 +186,27 @@ export async function writeScrapedArticles(
           'Alert Name': ensureCsvSafeValue(article.alertName),
           'Title': ensureCsvSafeValue(article.title),
           'Link': ensureCsvSafeValue(article.link),
+          'Original Link': ensureCsvSafeValue(article.originalLink),
+          'Published': ensureCsvSafeValue(article.pubDate),
+          'GUID': ensureCsvSafeValue(article.guid),
+          'Feed Title': ensureCsvSafeValue(article.feedTitle),
+          'Snippet': ensureCsvSafeValue(article.snippet),
+          'Page Date': ensureCsvSafeValue(article.pageDate),
+          'Document Type': ensureCsvSafeValue(article.documentType),
+          'Page Count': ensureCsvSafeValue(article.pageCount),
+          ...pageMetadataColumns(article.metadata),
           'Content': ensureCsvSafeValue(article.content),
-          'Error': ensureCsvSafeValue(article.error || '')
+          'Content Source': ensureCsvSafeValue(article.contentSource),
+          'Markdown Content': ensureCsvSafeValue(article.markdownContent),
+          'Excerpt': ensureCsvSafeValue(article.excerpt),
+          'Byline': ensureCsvSafeValue(article.byline),
+          'Site Name': ensureCsvSafeValue(article.siteName),
+          'Language': ensureCsvSafeValue(article.language),
+          'Length': ensureCsvSafeValue(article.length),
+          'Error': ensureCsvSafeValue(article.error || ''),
+          'Failure Code': ensureCsvSafeValue(article.failure?.code),
+          'HTTP Status': ensureCsvSafeValue(article.failure?.status),
+          'Retryable': ensureCsvSafeValue(article.failure?.retryable)
         });
       });
       
@@ -129,12 +242,30 @@ export async function writeAnalyzedArticles(
       articles.forEach(article => {
         csvStream.write({
           'Relevance Score': ensureCsvSafeValue(article.relevanceScore),
+          'Analysis Status': ensureCsvSafeValue(article.analysisStatus),
           'Alert Name': ensureCsvSafeValue(article.alertName),
+          'Alert Label': ensureCsvSafeValue(article.feed?.label),
+          'Alert Query': ensureCsvSafeValue(article.feed?.query),
+          'Tags': ensureCsvSafeValue(article.feed?.tags.join('; ')),
+          'Region': ensureCsvSafeValue(article.feed?.region),
+          'Priority': ensureCsvSafeValue(article.feed?.priority),
           'Title': ensureCsvSafeValue(article.title),
           'Link': ensureCsvSafeValue(article.link),
+          'Original Link': ensureCsvSafeValue(article.originalLink),
+          'Published': ensureCsvSafeValue(article.pubDate),
+          'GUID': ensureCsvSafeValue(article.guid),
+          'Feed Title': ensureCsvSafeValue(article.feedTitle),
+          'Snippet': ensureCsvSafeValue(article.snippet),
+          'Site Name': ensureCsvSafeValue(article.siteName),
+          'Byline': ensureCsvSafeValue(article.byline),
+          'Excerpt': ensureCsvSafeValue(article.excerpt),
+          'Document Type': ensureCsvSafeValue(article.documentType),
+          ...pageMetadataColumns(article.metadata),
           'Relevance Explanation': ensureCsvSafeValue(article.relevanceExplanation),
           'Content': ensureCsvSafeValue(article.content),
-          'Error': ensureCsvSafeValue(article.error || '')
+          'Content Source': ensureCsvSafeValue(article.contentSource),
+          'Error': ensureCsvSafeValue(article.error || ''),
+          'Scrape Failure': ensureCsvSafeValue(formatScrapeFailure(article.failure))
         });
       });
       
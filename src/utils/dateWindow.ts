@@ -0,0 +1,78 @@
+// src/utils/dateWindow.ts
+
+// Milliseconds per unit for relative durations such as "7d" or "36h"
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Articles kept and dropped by a publication-date filter
+export interface DateWindowResult<T> {
+  kept: T[];
+  dropped: T[];
+}
+
+/**
+ * Parse a relative duration ("30m", "36h", "7d", "2w") into milliseconds
+ */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([mhdw])$/i);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}" (expected e.g. 36h, 7d or 2w)`);
+  }
+  return parseFloat(match[1]) * DURATION_UNITS[match[2].toLowerCase()];
+}
+
+/**
+ * Work out the earliest publication date to keep from --since (a date or a
+ * duration) and --max-age (a duration). When both are given the later cutoff wins.
+ */
+export function resolvePublishedCutoff(
+  options: { since?: string; maxAge?: string },
+  now = new Date()
+): Date | undefined {
+  const cutoffs: Date[] = [];
+
+  if (options.since) {
+    const since = new Date(options.since);
+    cutoffs.push(isNaN(since.getTime())
+      ? new Date(now.getTime() - parseDuration(options.since))
+      : since);
+  }
+
+  if (options.maxAge) {
+    cutoffs.push(new Date(now.getTime() - parseDuration(options.maxAge)));
+  }
+
+  if (cutoffs.length === 0) {
+    return undefined;
+  }
+
+  return new Date(Math.max(...cutoffs.map(cutoff => cutoff.getTime())));
+}
+
+/**
+ * Split articles into those published on or after the cutoff and those before it.
+ * Articles without a parseable date are kept, since their age is unknown.
+ */
+export function filterByPublishedDate<T>(
+  articles: T[],
+  cutoff: Date,
+  getDate: (article: T) => string | undefined
+): DateWindowResult<T> {
+  const kept: T[] = [];
+  const dropped: T[] = [];
+
+  for (const article of articles) {
+    const published = new Date(getDate(article) || '');
+    if (!isNaN(published.getTime()) && published < cutoff) {
+      dropped.push(article);
+    } else {
+      kept.push(article);
+    }
+  }
+
+  return { kept, dropped };
+}
@@ -2,6 +2,7 @@
 
 import { ArticleInput, ArticleOutput } from '../scraper/index.js';
 import { AnalyzedArticle } from '../analysis/index.js';
+import { normalizeUrl } from './urlUtils.js';
 
 /**
  * Calculate similarity hash for article content
@@ -20,37 +21,6 @@ function calculateContentHash(content: string): string {
   return normalized.substring(0, 200);
 }
 
-/**
- * Calculate similarity hash for article URLs
- * Normalizes URLs to catch duplicates with tracking parameters
- */
-function normalizeUrl(url: string): string {
-  try {
-    // Parse the URL
-    const parsedUrl = new URL(url);
-    
-    // Remove common tracking parameters
-    const searchParams = parsedUrl.searchParams;
-    const paramsToRemove = [
-      'utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content',
-      'fbclid', 'gclid', 'ocid', 'msclkid', 'ref', 'source', 'ref_src'
-    ];
-    
-    paramsToRemove.forEach(param => {
-      searchParams.delete(param);
-    });
-    
-    // Reconstruct the URL without tracking parameters
-    parsedUrl.search = searchParams.toString();
-    
-    // Return normalized URL (remove trailing slash if present)
-    return parsedUrl.toString().replace(/\/$/, '');
-  } catch (e) {
-    // If URL parsing fails, return the original URL
-    return url;
-  }
-}
-
 /**
  * Detects and removes duplicate articles from a list
  * Uses both URL and content similarity for detection
@@ -72,7 +42,7 @@ export function deduplicateArticles<T extends ArticleInput>(
       continue;
     }
     
-    // Normalize the URL to detect duplicates with different tracking parameters
+    // Normalize the URL to detect duplicates behind redirects or with different tracking parameters
     const normalizedUrl = normalizeUrl(article.link);
     
     // Skip if we've seen this URL before
@@ -1,10 +1,13 @@
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 import XLSX from 'xlsx-js-style';
+import { marked } from 'marked';
+import sanitizeHtml from 'sanitize-html';
 import { writeAnalyzedArticles } from './csvHandler.js';
-import { AnalyzedArticle } from '../analysis/index.js';
+import { AnalyzedArticle, BudgetStatus, formatBudgetStatus } from '../analysis/index.js';
 import { ExportFormat } from '../config.js';
 import CONFIG from '../config.js';
+import { countScrapeFailures, formatScrapeFailure } from '../scraper/scrapeFailures.js';
 
 /**
  * Ensure CSV-safe values by converting objects to strings
@@ -23,6 +26,66 @@ function ensureCsvSafeValue(value: any): string {
   return String(value);
 }
 
+// Characters that must not reach the HTML report unescaped
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape text from feeds and scraped pages for use in HTML content or attributes
+ */
+function escapeHtml(value: string | number | null | undefined): string {
+  return String(value ?? '').replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+/**
+ * Get a link that is safe to put in an href: only http(s) URLs are linked
+ */
+function getSafeHref(link: string): string {
+  return /^https?:\/\//i.test(link) ? link : '#';
+}
+
+/**
+ * Get the scores of the articles that were analyzed
+ */
+function getScores(articles: AnalyzedArticle[]): number[] {
+  return articles
+    .map(article => article.relevanceScore)
+    .filter((score): score is number => score !== null);
+}
+
+/**
+ * Average score of the analyzed articles (0 when none were analyzed)
+ */
+function getAverageScore(articles: AnalyzedArticle[]): number {
+  const scores = getScores(articles);
+  return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+}
+
+/**
+ * Describe articles that were not scored ("failed (2), skipped (1)")
+ */
+function formatUnscoredCounts(articles: AnalyzedArticle[]): string {
+  const counts = articles
+    .filter(article => article.analysisStatus !== 'analyzed')
+    .reduce<Record<string, number>>((totals, article) => {
+      totals[article.analysisStatus] = (totals[article.analysisStatus] || 0) + 1;
+      return totals;
+    }, {});
+  return Object.entries(counts).map(([status, count]) => `${status} (${count})`).join(', ');
+}
+
+/**
+ * Describe the highest budget warning threshold reached, if any
+ */
+function formatBudgetWarning(budget?: BudgetStatus): string {
+  return budget?.warningLevel ? `${budget.warningLevel}% of the monthly API budget has been used` : '';
+}
+
 // Then update the exportToJson function to ensure it sanitizes data
 
 export interface ExportOptions {
@@ -31,6 +94,7 @@ export interface ExportOptions {
   chunkSize?: number; // For large datasets
   includeFullContent?: boolean; // Whether to include full article text
   minRelevanceScore?: number; // Filter by minimum score
+  budget?: BudgetStatus; // API spending, shown in report summaries
 }
 
 /**
@@ -45,12 +109,14 @@ export async function exportAnalyzedArticles(
     outputPath, 
     chunkSize = CONFIG.export.chunkSize,
     includeFullContent = CONFIG.export.includeFullContent,
-    minRelevanceScore = CONFIG.export.minRelevanceScore
+    minRelevanceScore = CONFIG.export.minRelevanceScore,
+    budget
   } = options;
   
-  // Filter articles by minimum relevance score if specified
+  // Filter articles by minimum relevance score if specified; unscored
+  // articles are only kept when no minimum is set
   const filteredArticles = articles.filter(
-    article => article.relevanceScore >= minRelevanceScore
+    article => (article.relevanceScore ?? 0) >= minRelevanceScore
   );
   
   console.log(`Exporting ${filteredArticles.length} articles to ${format} format`);
@@ -64,13 +130,13 @@ export async function exportAnalyzedArticles(
     case 'csv':
       return await writeAnalyzedArticles(filteredArticles, outputPath);
     case 'excel':
-      return await exportToExcel(filteredArticles, outputPath, includeFullContent, chunkSize);
+      return await exportToExcel(filteredArticles, outputPath, includeFullContent, chunkSize, budget);
     case 'json':
       return await exportToJson(filteredArticles, outputPath, includeFullContent);
     case 'markdown':
-      return await exportToMarkdown(filteredArticles, outputPath, includeFullContent);
+      return await exportToMarkdown(filteredArticles, outputPath, includeFullContent, budget);
     case 'html':
-      return await exportToHtml(filteredArticles, outputPath, includeFullContent);
+      return await exportToHtml(filteredArticles, outputPath, includeFullContent, budget);
     default:
       throw new Error(`Unsupported export format: ${format}`);
   }
@@ -83,7 +149,8 @@ export async function exportToExcel(
   articles: AnalyzedArticle[],
   outputPath: string,
   includeFullContent: boolean,
-  chunkSize: number
+  chunkSize: number,
+  budget?: BudgetStatus
 ): Promise<string> {
   // Create workbook
   const workbook = XLSX.utils.book_new();
@@ -91,9 +158,34 @@ export async function exportToExcel(
   // Define headers
   const headers = [
     'Relevance Score',
+    'Analysis Status',
     'Alert Name',
+    'Alert Label',
+    'Alert Query',
+    'Tags',
+    'Region',
+    'Priority',
     'Title',
     'Link',
+    'Original Link',
+    'Published',
+    'Feed Title',
+    'GUID',
+    'Snippet',
+    'Site Name',
+    'Byline',
+    'Excerpt',
+    'Language',
+    'Document Type',
+    'Authors',
+    'Publisher',
+    'Publisher Type',
+    'Page Published',
+    'Page Modified',
+    'Section',
+    'Keywords',
+    'Scrape Failure',
+    'Content Source',
     'Relevance Explanation'
   ];
   
@@ -105,10 +197,35 @@ export async function exportToExcel(
   const processChunk = (chunk: AnalyzedArticle[]) => {
     return chunk.map(article => {
       const row: any[] = [
-        article.relevanceScore,
+        article.relevanceScore ?? '',
+        article.analysisStatus,
         article.alertName,
+        article.feed?.label || '',
+        article.feed?.query || '',
+        article.feed?.tags.join('; ') || '',
+        article.feed?.region || '',
+        article.feed?.priority ?? '',
         article.title,
         article.link,
+        article.originalLink || '',
+        article.pubDate || '',
+        article.feedTitle || '',
+        article.guid || '',
+        article.snippet || '',
+        article.siteName || '',
+        article.byline || '',
+        article.excerpt || '',
+        article.language || '',
+        getDocumentTypeLabel(article),
+        article.metadata?.authors.join('; ') || '',
+        article.metadata?.publisher || '',
+        article.metadata?.publisherType || '',
+        article.metadata?.datePublished || article.pageDate || '',
+        article.metadata?.dateModified || '',
+        article.metadata?.section || '',
+        article.metadata?.keywords.join('; ') || '',
+        formatScrapeFailure(article.failure),
+        article.contentSource || '',
         article.relevanceExplanation
       ];
       
@@ -159,10 +276,15 @@ export async function exportToExcel(
   const summaryData = [
     ["Analysis Summary", ""],
     ["Total Articles", articles.length],
-    ["Average Relevance Score", articles.reduce((sum, a) => sum + a.relevanceScore, 0) / articles.length],
-    ["Articles with Score > 75", articles.filter(a => a.relevanceScore > 75).length],
-    ["Articles with Score > 50", articles.filter(a => a.relevanceScore > 50).length],
-    ["Articles with Score > 25", articles.filter(a => a.relevanceScore > 25).length],
+    ["Articles Analyzed", getScores(articles).length],
+    ["Articles Not Scored", articles.length - getScores(articles).length],
+    ["Average Relevance Score", getAverageScore(articles)],
+    ["Articles with Score > 75", getScores(articles).filter(score => score > 75).length],
+    ["Articles with Score > 50", getScores(articles).filter(score => score > 50).length],
+    ["Articles with Score > 25", getScores(articles).filter(score => score > 25).length],
+    ...Object.entries(countScrapeFailures(articles)).map(([code, count]) => [`Scrape Failures: ${code}`, count]),
+    ...(budget ? [["API Budget", formatBudgetStatus(budget)]] : []),
+    ...(formatBudgetWarning(budget) ? [["Budget Warning", formatBudgetWarning(budget)]] : []),
     ["Generated On", new Date().toLocaleString()]
   ];
   
@@ -187,14 +309,39 @@ export async function exportToJson(
     // Create a safe copy of the article data
     const data: any = {
       relevanceScore: article.relevanceScore,
+      analysisStatus: article.analysisStatus,
       alertName: article.alertName,
+      alertLabel: article.feed?.label || '',
+      alertQuery: article.feed?.query || '',
+      tags: article.feed?.tags || [],
+      region: article.feed?.region || '',
+      priority: article.feed?.priority ?? 0,
       title: article.title,
       link: article.link,
+      originalLink: article.originalLink || '',
+      pubDate: article.pubDate || '',
+      guid: article.guid || '',
+      feedTitle: article.feedTitle || '',
+      snippet: article.snippet || '',
+      siteName: article.siteName || '',
+      byline: article.byline || '',
+      excerpt: article.excerpt || '',
+      language: article.language || '',
+      contentLength: article.length ?? article.content.length,
+      documentType: article.documentType || '',
+      pageCount: article.pageCount ?? null,
+      contentSource: article.contentSource || '',
+      pageDate: article.pageDate || '',
+      metadata: article.metadata || null,
+      scrapeFailure: article.failure
+        ? { code: article.failure.code, status: article.failure.status ?? null, retryable: article.failure.retryable, message: article.failure.message }
+        : null,
       relevanceExplanation: article.relevanceExplanation,
     };
     
     if (includeFullContent) {
       data.content = article.content;
+      data.markdownContent = article.markdownContent || '';
     }
     
     return data;
@@ -215,25 +362,75 @@ export async function exportToJson(
 export async function exportToMarkdown(
   articles: AnalyzedArticle[],
   outputPath: string,
-  includeFullContent: boolean
+  includeFullContent: boolean,
+  budget?: BudgetStatus
 ): Promise<string> {
   let markdown = `# Analyzed Articles\n\n`;
   markdown += `*Generated on ${new Date().toLocaleString()}*\n\n`;
   markdown += `## Summary\n\n`;
   markdown += `- **Total Articles**: ${articles.length}\n`;
-  markdown += `- **Average Relevance Score**: ${(articles.reduce((sum, a) => sum + a.relevanceScore, 0) / articles.length).toFixed(2)}\n\n`;
+  markdown += `- **Average Relevance Score**: ${getAverageScore(articles).toFixed(2)}\n`;
+  const unscored = formatUnscoredCounts(articles);
+  if (unscored) {
+    markdown += `- **Not Scored**: ${unscored}\n`;
+  }
+  const failureCounts = Object.entries(countScrapeFailures(articles));
+  if (failureCounts.length > 0) {
+    markdown += `- **Scrape Failures**: ${failureCounts.map(([code, count]) => `${code} (${count})`).join(', ')}\n`;
+  }
+  if (budget) {
+    markdown += `- **API Budget**: ${formatBudgetStatus(budget)}\n`;
+  }
+  if (formatBudgetWarning(budget)) {
+    markdown += `\n> **Warning**: ${formatBudgetWarning(budget)}.\n`;
+  }
+  markdown += `\n`;
   markdown += `## Articles by Relevance\n\n`;
   
   // Add each article
   for (const article of articles) {
-    markdown += `### ${article.title} (Score: ${article.relevanceScore})\n\n`;
-    markdown += `- **Alert Source**: ${article.alertName}\n`;
+    markdown += `### ${article.title} (Score: ${article.relevanceScore ?? `not scored, ${article.analysisStatus}`})\n\n`;
+    markdown += `- **Alert Source**: ${getAlertDisplayName(article)}\n`;
+    if (article.feed?.query) {
+      markdown += `- **Alert Query**: ${article.feed.query}\n`;
+    }
+    if (article.feed && (article.feed.tags.length > 0 || article.feed.region)) {
+      markdown += `- **Tags**: ${[...article.feed.tags, article.feed.region].filter(Boolean).join(', ')}\n`;
+    }
     markdown += `- **Link**: [${article.link}](${article.link})\n`;
+    markdown += `- **Published**: ${formatDisplayDate(article.pubDate)}\n`;
+    if (article.metadata?.dateModified) {
+      markdown += `- **Updated**: ${formatDisplayDate(article.metadata.dateModified)}\n`;
+    }
+    if (article.metadata?.authors.length) {
+      markdown += `- **Authors**: ${article.metadata.authors.join(', ')}\n`;
+    }
+    if (article.metadata?.publisher) {
+      markdown += `- **Publisher**: ${getPublisherLabel(article)}\n`;
+    }
+    if (article.documentType === 'pdf') {
+      markdown += `- **Document Type**: ${getDocumentTypeLabel(article)}\n`;
+    }
+    if (article.failure) {
+      markdown += `- **Scrape Failure**: ${formatScrapeFailure(article.failure)}\n`;
+    }
+    if (article.contentSource && article.contentSource !== 'page') {
+      markdown += `- **Content Source**: ${article.contentSource}\n`;
+    }
+    if (article.feedTitle) {
+      markdown += `- **Feed**: ${article.feedTitle}\n`;
+    }
+    if (article.snippet) {
+      markdown += `- **Snippet**: ${article.snippet}\n`;
+    }
+    if (article.byline) {
+      markdown += `- **Byline**: ${article.byline}\n`;
+    }
     markdown += `- **Relevance**: ${article.relevanceExplanation}\n\n`;
     
     if (includeFullContent) {
       markdown += `#### Content\n\n`;
-      markdown += `${article.content}\n\n`;
+      markdown += `${demoteHeadings(article.markdownContent || article.content, 4)}\n\n`;
       markdown += `---\n\n`;
     }
   }
@@ -242,14 +439,88 @@ export async function exportToMarkdown(
   return outputPath;
 }
 
+/**
+ * Push markdown headings down a number of levels so article headings sit
+ * under the report's own (an article's "# Title" becomes "##### Title")
+ */
+function demoteHeadings(markdown: string, levels: number): string {
+  return markdown.replace(/^(#{1,6})(?=\s)/gm, hashes => '#'.repeat(Math.min(hashes.length + levels, 6)));
+}
+
+/**
+ * Render an article's markdown (or plain text, when there is none) as HTML
+ * for the report, sanitized since it comes from third-party pages
+ */
+function renderContentHtml(article: AnalyzedArticle): string {
+  const html = marked.parse(demoteHeadings(article.markdownContent || article.content, 3), { async: false }) as string;
+  return sanitizeHtml(html, {
+    allowedTags: sanitizeHtml.defaults.allowedTags.concat(['img']),
+    allowedAttributes: {
+      ...sanitizeHtml.defaults.allowedAttributes,
+      img: ['src', 'alt', 'title'],
+    },
+  });
+}
+
+/**
+ * Get the label to show for an article's alert, falling back to its alert name
+ */
+function getAlertDisplayName(article: AnalyzedArticle): string {
+  return article.feed?.label || article.alertName;
+}
+
+/**
+ * Get the publisher hostname for display, falling back to the raw link
+ */
+function getHostname(link: string): string {
+  try {
+    return new URL(link).hostname.replace(/^www\./, '');
+  } catch (e) {
+    return link;
+  }
+}
+
+/**
+ * Describe the scraped document type for display ("PDF, 12 pages")
+ */
+function getDocumentTypeLabel(article: AnalyzedArticle): string {
+  if (article.documentType === 'pdf') {
+    return article.pageCount ? `PDF, ${article.pageCount} pages` : 'PDF';
+  }
+  return article.documentType === 'html' ? 'Web page' : '';
+}
+
+/**
+ * Describe the publisher for display ("City of Austin (GovernmentOrganization)")
+ */
+function getPublisherLabel(article: AnalyzedArticle): string {
+  const publisher = article.metadata?.publisher || '';
+  return article.metadata?.publisherType ? `${publisher} (${article.metadata.publisherType})` : publisher;
+}
+
+/**
+ * Format an ISO publication date for display
+ */
+function formatDisplayDate(isoDate?: string): string {
+  if (!isoDate) {
+    return 'Unknown';
+  }
+  
+  const date = new Date(isoDate);
+  return isNaN(date.getTime()) ? isoDate : date.toLocaleString();
+}
+
 /**
  * Export to HTML format with interactive features
  */
 export async function exportToHtml(
   articles: AnalyzedArticle[],
   outputPath: string,
-  includeFullContent: boolean
+  includeFullContent: boolean,
+  budget?: BudgetStatus
 ): Promise<string> {
+  const failureCounts = Object.entries(countScrapeFailures(articles));
+  
   // Create an interactive HTML report
   let html = `
   <!DOCTYPE html>
@@ -308,6 +579,19 @@ export async function exportToHtml(
       .score-low {
         background-color: #F44336;
       }
+      .score-none {
+        background-color: #9E9E9E;
+      }
+      .doc-badge {
+        display: inline-block;
+        padding: 2px 8px;
+        margin-left: 8px;
+        border-radius: 4px;
+        background-color: #607D8B;
+        color: white;
+        font-size: 0.7em;
+        vertical-align: middle;
+      }
       .article-content {
         max-height: 300px;
         overflow-y: auto;
@@ -346,6 +630,10 @@ export async function exportToHtml(
         border-radius: 5px;
         margin-bottom: 20px;
       }
+      .budget-warning {
+        color: #B71C1C;
+        font-weight: bold;
+      }
       .hidden {
         display: none;
       }
@@ -360,10 +648,14 @@ export async function exportToHtml(
     <div class="summary">
       <h2>Summary</h2>
       <p>Total Articles: <strong>${articles.length}</strong></p>
-      <p>Average Relevance Score: <strong>${(articles.reduce((sum, a) => sum + a.relevanceScore, 0) / articles.length).toFixed(2)}</strong></p>
-      <p>High Relevance (>75): <strong>${articles.filter(a => a.relevanceScore > 75).length}</strong></p>
-      <p>Medium Relevance (50-75): <strong>${articles.filter(a => a.relevanceScore >= 50 && a.relevanceScore <= 75).length}</strong></p>
-      <p>Low Relevance (<50): <strong>${articles.filter(a => a.relevanceScore < 50).length}</strong></p>
+      <p>Average Relevance Score: <strong>${getAverageScore(articles).toFixed(2)}</strong></p>
+      <p>High Relevance (>75): <strong>${getScores(articles).filter(score => score > 75).length}</strong></p>
+      <p>Medium Relevance (50-75): <strong>${getScores(articles).filter(score => score >= 50 && score <= 75).length}</strong></p>
+      <p>Low Relevance (<50): <strong>${getScores(articles).filter(score => score < 50).length}</strong></p>
+      ${formatUnscoredCounts(articles) ? `<p>Not Scored: <strong>${formatUnscoredCounts(articles)}</strong></p>` : ''}
+      ${failureCounts.length > 0 ? `<p>Scrape Failures: <strong>${failureCounts.map(([code, count]) => `${code} (${count})`).join(', ')}</strong></p>` : ''}
+      ${budget ? `<p>API Budget: <strong>${formatBudgetStatus(budget)}</strong></p>` : ''}
+      ${formatBudgetWarning(budget) ? `<p class="budget-warning">Warning: ${formatBudgetWarning(budget)}</p>` : ''}
     </div>
     
     <div class="controls">
@@ -377,6 +669,7 @@ export async function exportToHtml(
           <option value="score">Relevance Score</option>
           <option value="title">Title</option>
           <option value="alertName">Alert Name</option>
+          <option value="published">Published Date</option>
         </select>
         
         <button onclick="applyFilters()">Apply</button>
@@ -389,25 +682,35 @@ export async function exportToHtml(
   
   // Add articles
   articles.forEach((article, index) => {
-    const scoreClass = article.relevanceScore > 75 ? 'score-high' : 
+    const scoreClass = article.relevanceScore === null ? 'score-none' :
+                      article.relevanceScore > 75 ? 'score-high' : 
                       article.relevanceScore >= 50 ? 'score-medium' : 'score-low';
     
     html += `
-      <div class="article" data-score="${article.relevanceScore}" data-title="${article.title}" data-alert="${article.alertName}">
+      <div class="article" data-score="${article.relevanceScore ?? ''}" data-title="${escapeHtml(article.title)}" data-alert="${escapeHtml(getAlertDisplayName(article))}" data-published="${escapeHtml(article.pubDate)}">
         <h3>
-          <span class="score ${scoreClass}">${article.relevanceScore}</span>
-          ${article.title}
+          <span class="score ${scoreClass}" title="${article.analysisStatus}">${article.relevanceScore ?? '–'}</span>
+          ${escapeHtml(article.title)}
+          ${article.documentType === 'pdf' ? `<span class="doc-badge" title="${getDocumentTypeLabel(article)}">PDF</span>` : ''}
         </h3>
-        <p><strong>Alert:</strong> ${article.alertName}</p>
-        <p><strong>Link:</strong> <a href="${article.link}" target="_blank">${article.link}</a></p>
-        <p><strong>Relevance:</strong> ${article.relevanceExplanation}</p>
+        <p><strong>Alert:</strong> ${escapeHtml(getAlertDisplayName(article))}${article.feed?.query ? ` <em>(${escapeHtml(article.feed.query)})</em>` : ''}</p>
+        ${article.feed && (article.feed.tags.length > 0 || article.feed.region) ? `<p><strong>Tags:</strong> ${escapeHtml([...article.feed.tags, article.feed.region].filter(Boolean).join(', '))}</p>` : ''}
+        <p><strong>Source:</strong> ${escapeHtml(getHostname(article.link))}</p>
+        <p><strong>Published:</strong> ${escapeHtml(formatDisplayDate(article.pubDate))}${article.metadata?.dateModified ? ` (updated ${escapeHtml(formatDisplayDate(article.metadata.dateModified))})` : ''}</p>
+        ${article.metadata?.authors.length ? `<p><strong>Authors:</strong> ${escapeHtml(article.metadata.authors.join(', '))}</p>` : ''}
+        ${article.metadata?.publisher ? `<p><strong>Publisher:</strong> ${escapeHtml(getPublisherLabel(article))}</p>` : ''}
+        ${article.snippet ? `<p><strong>Snippet:</strong> ${escapeHtml(article.snippet)}</p>` : ''}
+        ${article.failure ? `<p><strong>Scrape Failure:</strong> ${escapeHtml(formatScrapeFailure(article.failure))}</p>` : ''}
+        ${article.contentSource && article.contentSource !== 'page' ? `<p><strong>Content Source:</strong> ${escapeHtml(article.contentSource)}</p>` : ''}
+        <p><strong>Link:</strong> <a href="${escapeHtml(getSafeHref(article.link))}" target="_blank">${escapeHtml(article.link)}</a></p>
+        <p><strong>Relevance:</strong> ${escapeHtml(article.relevanceExplanation)}</p>
     `;
     
     if (includeFullContent) {
       html += `
         <button onclick="toggleContent(${index})">Show/Hide Content</button>
         <div id="content-${index}" class="article-content">
-          ${article.content.replace(/\n/g, '<br>')}
+          ${renderContentHtml(article)}
         </div>
       `;
     }
@@ -482,18 +785,22 @@ export async function exportToHtml(
         
         // Filter by minimum score
         filteredArticles = allArticles.filter(article => {
-          const score = parseInt(article.dataset.score);
+          // Unscored articles have no score and only show without a minimum
+          const score = parseInt(article.dataset.score) || 0;
           return score >= minScore;
         });
         
         // Sort articles
         filteredArticles.sort((a, b) => {
           if (sortBy === 'score') {
-            return parseInt(b.dataset.score) - parseInt(a.dataset.score);
+            const scoreOf = element => element.dataset.score === '' ? -1 : parseInt(element.dataset.score);
+            return scoreOf(b) - scoreOf(a);
           } else if (sortBy === 'title') {
             return a.dataset.title.localeCompare(b.dataset.title);
           } else if (sortBy === 'alertName') {
             return a.dataset.alert.localeCompare(b.dataset.alert);
+          } else if (sortBy === 'published') {
+            return (b.dataset.published || '').localeCompare(a.dataset.published || '');
           }
         });
         
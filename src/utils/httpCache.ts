@@ -0,0 +1,285 @@
+// src/utils/httpCache.ts
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fetch, Headers, RequestInit, Response } from 'undici';
+import CONFIG from '../config.js';
+
+// How the cache is used for this run
+export type HttpCacheMode = 'use' | 'refresh' | 'bypass';
+
+// Response headers kept with a cached body
+const STORED_HEADERS = ['content-type', 'etag', 'last-modified', 'cache-control'];
+
+// One cached response; the body is stored separately under its content hash
+interface HttpCacheEntry {
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  vary?: Record<string, string>; // Request headers named in Vary, as sent when the response was stored
+  bodyHash: string;
+  size: number;
+  storedAt: string;
+  expiresAt: string;
+  lastUsedAt: string;
+}
+
+export interface HttpCacheStats {
+  hits: number;
+  misses: number;
+  stores: number;
+  evictions: number;
+}
+
+export interface CachedFetchOptions {
+  ttlMs?: number; // Lifetime when the response has no Cache-Control max-age
+}
+
+// Set up cache paths
+const cacheDir = path.join(CONFIG.outputDir, 'http-cache');
+const bodiesDir = path.join(cacheDir, 'bodies');
+const indexPath = path.join(cacheDir, 'index.json');
+
+let entries: Record<string, HttpCacheEntry> = {};
+let loaded = false;
+let mode: HttpCacheMode = 'use';
+let writeQueue: Promise<void> = Promise.resolve();
+const stats: HttpCacheStats = { hits: 0, misses: 0, stores: 0, evictions: 0 };
+
+/**
+ * Choose whether this run reads from the cache (use), only writes to it
+ * (refresh), or ignores it entirely (bypass)
+ */
+export function setHttpCacheMode(newMode: HttpCacheMode): void {
+  mode = newMode;
+}
+
+/**
+ * Get the cache mode for this run
+ */
+export function getHttpCacheMode(): HttpCacheMode {
+  return mode;
+}
+
+/**
+ * Get the cache hit/miss counts for this process
+ */
+export function getHttpCacheStats(): HttpCacheStats {
+  return { ...stats };
+}
+
+/**
+ * Load the cache index from disk (once per process)
+ */
+async function loadCacheIndex(): Promise<void> {
+  if (loaded) {
+    return;
+  }
+
+  try {
+    const data = await fs.readFile(indexPath, 'utf-8');
+    entries = JSON.parse(data) as Record<string, HttpCacheEntry>;
+  } catch (error) {
+    entries = {};
+  }
+
+  loaded = true;
+}
+
+/**
+ * Run a change to the cache on disk once the ones before it have finished,
+ * so concurrent stores, evictions and index saves never interleave
+ */
+function queueCacheWrite(write: () => Promise<void>): Promise<void> {
+  writeQueue = writeQueue
+    .then(write)
+    .catch(error => console.error('Error writing HTTP cache:', error));
+  return writeQueue;
+}
+
+/**
+ * Save the cache index to disk (only from a queued write)
+ */
+async function saveCacheIndex(): Promise<void> {
+  await fs.mkdir(cacheDir, { recursive: true });
+  await fs.writeFile(indexPath, JSON.stringify(entries, null, 2), 'utf-8');
+}
+
+/**
+ * Work out how long a response may be cached from its Cache-Control header.
+ * Returns 0 for responses that must not be reused without revalidation and
+ * null for responses that must not be stored at all.
+ */
+function getFreshnessLifetime(cacheControl: string | null, defaultTtlMs: number): number | null {
+  const directives = (cacheControl || '').toLowerCase();
+
+  if (/\bno-store\b/.test(directives)) {
+    return null;
+  }
+  if (/\bno-cache\b/.test(directives)) {
+    return 0;
+  }
+
+  const maxAge = directives.match(/\b(?:s-maxage|max-age)\s*=\s*(\d+)/);
+  return maxAge ? parseInt(maxAge[1], 10) * 1000 : defaultTtlMs;
+}
+
+/**
+ * Remove the least recently used entries until the cache fits its size limit
+ * (only from a queued write, so no store adds a body while it runs)
+ */
+async function evictToMaxSize(): Promise<void> {
+  const maxBytes = CONFIG.cache.maxSizeMb * 1024 * 1024;
+  let totalSize = Object.values(entries).reduce((sum, entry) => sum + entry.size, 0);
+  if (totalSize <= maxBytes) {
+    return;
+  }
+
+  const byLastUse = Object.entries(entries)
+    .sort(([, a], [, b]) => a.lastUsedAt.localeCompare(b.lastUsedAt));
+
+  for (const [key, entry] of byLastUse) {
+    if (totalSize <= maxBytes) {
+      break;
+    }
+
+    delete entries[key];
+    totalSize -= entry.size;
+    stats.evictions++;
+
+    // Identical bodies are shared between URLs
+    if (!Object.values(entries).some(other => other.bodyHash === entry.bodyHash)) {
+      await fs.rm(path.join(bodiesDir, entry.bodyHash), { force: true });
+    }
+  }
+}
+
+/**
+ * Get the values of the request headers a response varies on
+ */
+function getVaryValues(varyHeader: string | null, requestHeaders: Headers): Record<string, string> {
+  return Object.fromEntries(
+    (varyHeader || '')
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean)
+      .map(name => [name, requestHeaders.get(name) || ''])
+  );
+}
+
+/**
+ * Store a successful response body and its headers, along with the request
+ * headers it varies on, then evict down to the size limit
+ */
+function storeResponse(
+  key: string,
+  response: Response,
+  body: Buffer,
+  lifetimeMs: number,
+  vary: Record<string, string>
+): Promise<void> {
+  return queueCacheWrite(async () => {
+    const bodyHash = createHash('sha256').update(body).digest('hex');
+    const now = new Date();
+
+    await fs.mkdir(bodiesDir, { recursive: true });
+    await fs.writeFile(path.join(bodiesDir, bodyHash), body);
+
+    entries[key] = {
+      url: key,
+      status: response.status,
+      headers: Object.fromEntries(
+        STORED_HEADERS
+          .map(name => [name, response.headers.get(name)] as const)
+          .filter((header): header is readonly [string, string] => Boolean(header[1]))
+      ),
+      vary: Object.keys(vary).length > 0 ? vary : undefined,
+      bodyHash,
+      size: body.length,
+      storedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + lifetimeMs).toISOString(),
+      lastUsedAt: now.toISOString(),
+    };
+    stats.stores++;
+
+    await evictToMaxSize();
+    await saveCacheIndex();
+  });
+}
+
+/**
+ * Read a fresh cached response for a key, if there is one and it was stored
+ * for the same values of the request headers it varies on
+ */
+async function readCachedResponse(key: string, requestHeaders: Headers): Promise<Response | null> {
+  const entry = entries[key];
+  if (!entry || new Date(entry.expiresAt).getTime() <= Date.now()) {
+    return null;
+  }
+  if (Object.entries(entry.vary || {}).some(([name, value]) => (requestHeaders.get(name) || '') !== value)) {
+    return null;
+  }
+
+  try {
+    const body = await fs.readFile(path.join(bodiesDir, entry.bodyHash));
+    entry.lastUsedAt = new Date().toISOString();
+    return new Response(body, { status: entry.status, headers: entry.headers });
+  } catch (error) {
+    // Body file went missing; treat as a miss
+    delete entries[key];
+    return null;
+  }
+}
+
+/**
+ * Fetch a URL through the on-disk response cache. Only successful GET
+ * responses are stored, keyed by the exact request URL (and only reused for
+ * requests with the same values of the headers named in Vary), for as long
+ * as their Cache-Control allows (or the given TTL when they don't say).
+ * A request sent with Cache-Control: no-cache always goes to the server, and
+ * one with no-store is neither answered from nor written to the cache.
+ */
+export async function cachedFetch(
+  url: string,
+  init: RequestInit = {},
+  options: CachedFetchOptions = {}
+): Promise<Response> {
+  if (!CONFIG.cache.enabled || mode === 'bypass' || (init.method && init.method !== 'GET')) {
+    return fetch(url, init);
+  }
+
+  await loadCacheIndex();
+  // The fragment is never sent, so it doesn't make a different request
+  const key = url.split('#')[0];
+  const requestHeaders = new Headers(init.headers);
+  const requestCacheControl = (requestHeaders.get('cache-control') || '').toLowerCase();
+  const noStore = /\bno-store\b/.test(requestCacheControl);
+
+  if (mode === 'use' && !noStore && !/\bno-cache\b/.test(requestCacheControl)) {
+    const cached = await readCachedResponse(key, requestHeaders);
+    if (cached) {
+      stats.hits++;
+      return cached;
+    }
+  }
+
+  stats.misses++;
+  const response = await fetch(url, init);
+  if (!response.ok || noStore) {
+    return response;
+  }
+
+  const lifetimeMs = getFreshnessLifetime(
+    response.headers.get('cache-control'),
+    options.ttlMs ?? CONFIG.cache.ttlHours * 60 * 60 * 1000
+  );
+  const varyHeader = response.headers.get('vary');
+  if (lifetimeMs === null || lifetimeMs === 0 || varyHeader?.trim() === '*') {
+    return response;
+  }
+
+  const body = Buffer.from(await response.arrayBuffer());
+  await storeResponse(key, response, body, lifetimeMs, getVaryValues(varyHeader, requestHeaders));
+
+  return new Response(body, { status: response.status, headers: response.headers });
+}
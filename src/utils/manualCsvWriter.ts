@@ -91,6 +91,25 @@ export async function writeToCSV(
   }
 }
 
+/**
+ * Append rows to an existing CSV file, in the order of its header columns,
+ * leaving the rows already in it untouched
+ */
+export async function appendToCSV(
+  data: Record<string, any>[],
+  headers: string[],
+  outputPath: string
+): Promise<string> {
+  const existing = await fs.readFile(outputPath, 'utf8');
+  const lines = data.map(item => rowToCsvLine(item, headers));
+  const separator = existing.length > 0 && !existing.endsWith('\n') ? '\n' : '';
+  
+  await fs.appendFile(outputPath, separator + lines.join('\n') + '\n', 'utf8');
+  console.log(`Successfully appended ${data.length} rows to ${outputPath}`);
+  
+  return outputPath;
+}
+
 /**
  * Write RSS feed articles to CSV
  */
@@ -98,12 +117,17 @@ export async function writeArticlesToCsv(
   articles: ArticleInput[],
   outputPath: string
 ): Promise<string> {
-  const headers = ['Alert Name', 'Title', 'Link'];
+  const headers = ['Alert Name', 'Title', 'Link', 'Original Link', 'Published', 'GUID', 'Feed Title', 'Snippet'];
   
   const data = articles.map(article => ({
     'Alert Name': article.alertName,
     'Title': article.title,
-    'Link': article.link
+    'Link': article.link,
+    'Original Link': article.originalLink || '',
+    'Published': article.pubDate || '',
+    'GUID': article.guid || '',
+    'Feed Title': article.feedTitle || '',
+    'Snippet': article.snippet || ''
   }));
   
   return writeToCSV(data, headers, outputPath);
@@ -116,12 +140,17 @@ export async function writeScrapedArticlesToCsv(
   articles: ArticleOutput[],
   outputPath: string
 ): Promise<string> {
-  const headers = ['Alert Name', 'Title', 'Link', 'Content', 'Error'];
+  const headers = ['Alert Name', 'Title', 'Link', 'Original Link', 'Published', 'GUID', 'Feed Title', 'Snippet', 'Content', 'Error'];
   
   const data = articles.map(article => ({
     'Alert Name': article.alertName,
     'Title': article.title,
     'Link': article.link,
+    'Original Link': article.originalLink || '',
+    'Published': article.pubDate || '',
+    'GUID': article.guid || '',
+    'Feed Title': article.feedTitle || '',
+    'Snippet': article.snippet || '',
     'Content': article.content,
     'Error': article.error || ''
   }));
@@ -136,13 +165,19 @@ export async function writeAnalyzedArticlesToCsv(
   articles: AnalyzedArticle[],
   outputPath: string
 ): Promise<string> {
-  const headers = ['Relevance Score', 'Alert Name', 'Title', 'Link', 'Relevance Explanation', 'Content', 'Error'];
+  const headers = ['Relevance Score', 'Analysis Status', 'Alert Name', 'Title', 'Link', 'Original Link', 'Published', 'GUID', 'Feed Title', 'Snippet', 'Relevance Explanation', 'Content', 'Error'];
   
   const data = articles.map(article => ({
-    'Relevance Score': article.relevanceScore,
+    'Relevance Score': article.relevanceScore ?? '',
+    'Analysis Status': article.analysisStatus,
     'Alert Name': article.alertName,
     'Title': article.title,
     'Link': article.link,
+    'Original Link': article.originalLink || '',
+    'Published': article.pubDate || '',
+    'GUID': article.guid || '',
+    'Feed Title': article.feedTitle || '',
+    'Snippet': article.snippet || '',
     'Relevance Explanation': article.relevanceExplanation,
     'Content': article.content,
     'Error': article.error || ''
@@ -0,0 +1,29 @@
+// src/utils/textUtils.ts
+import * as cheerio from 'cheerio';
+
+/**
+ * Convert an HTML fragment (e.g. a feed snippet or title) to plain text,
+ * dropping scripts and styles, decoding entities and collapsing whitespace
+ */
+export function stripHtml(html: string): string {
+  if (!html) {
+    return '';
+  }
+
+  const $ = cheerio.load(html);
+  $('script, style').remove();
+  return $.root().text().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Normalize a date string to ISO 8601, or return an empty string
+ * if it cannot be parsed
+ */
+export function toIsoDate(value?: string): string {
+  if (!value) {
+    return '';
+  }
+
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? '' : date.toISOString();
+}
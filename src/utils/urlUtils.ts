@@ -0,0 +1,72 @@
+// src/utils/urlUtils.ts
+
+// Hosts that Google Alerts uses for its click-tracking redirects
+const GOOGLE_REDIRECT_HOSTS = new Set([
+  'www.google.com',
+  'google.com',
+]);
+
+// Tracking parameters that never change which page is served
+const TRACKING_PARAMS = [
+  'utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content',
+  'fbclid', 'gclid', 'ocid', 'msclkid', 'ref', 'source', 'ref_src'
+];
+
+/**
+ * Extract the real target from a Google Alerts redirect link
+ * (https://www.google.com/url?rct=j&sa=t&url=...&usg=...).
+ * Returns the input unchanged if it is not a Google redirect.
+ */
+export function unwrapGoogleRedirect(url: string): string {
+  try {
+    const parsedUrl = new URL(url);
+
+    if (!GOOGLE_REDIRECT_HOSTS.has(parsedUrl.hostname) || parsedUrl.pathname !== '/url') {
+      return url;
+    }
+
+    // Alerts use "url", older redirects use "q"
+    const target = parsedUrl.searchParams.get('url') || parsedUrl.searchParams.get('q');
+    if (!target || !/^https?:\/\//i.test(target)) {
+      return url;
+    }
+
+    return target;
+  } catch (e) {
+    // If URL parsing fails, return the original URL
+    return url;
+  }
+}
+
+/**
+ * Normalize a URL for comparison: unwrap redirects, drop tracking
+ * parameters and fragments, and remove a trailing slash
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsedUrl = new URL(unwrapGoogleRedirect(url));
+
+    TRACKING_PARAMS.forEach(param => {
+      parsedUrl.searchParams.delete(param);
+    });
+    parsedUrl.hash = '';
+
+    return parsedUrl.toString().replace(/\/$/, '');
+  } catch (e) {
+    return url;
+  }
+}
+
+/**
+ * Get the canonical form of a feed link for recognising the same article:
+ * the publisher URL behind any Google redirect, without tracking parameters.
+ * Only for comparison; pages are fetched from the unwrapped link as given,
+ * since some sites need the parameters or trailing slash this drops.
+ */
+export function canonicalizeUrl(url: string): string {
+  if (!url) {
+    return url;
+  }
+
+  return normalizeUrl(url.trim());
+}
@@ -0,0 +1,133 @@
+// src/watch.ts
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { Cron } from 'croner';
+import CONFIG from './config.js';
+import { parseDuration } from './utils/dateWindow.js';
+
+// Longest single wait between clock checks. Timers stop while the machine
+// sleeps, so waiting in short steps notices a missed run soon after waking.
+const MAX_WAIT_MS = 60 * 1000;
+
+// When to run the pipeline next
+export interface WatchSchedule {
+  description: string;
+  next(after: Date): Date;
+}
+
+// What the watcher remembers between runs and restarts
+interface WatchState {
+  lastRunAt?: string; // Start of the most recent run, successful or not
+  lastSuccessAt?: string; // Start of the most recent successful run
+  lastError?: string;
+}
+
+// Set up watch state file path
+const watchStatePath = path.join(CONFIG.outputDir, 'watch_state.json');
+
+/**
+ * Load the watch state from disk
+ */
+async function loadWatchState(): Promise<WatchState> {
+  try {
+    const data = await fs.readFile(watchStatePath, 'utf-8');
+    return JSON.parse(data) as WatchState;
+  } catch (error) {
+    console.log('No previous watch runs found');
+    return {};
+  }
+}
+
+/**
+ * Save the watch state to disk
+ */
+async function saveWatchState(state: WatchState): Promise<void> {
+  try {
+    await fs.mkdir(path.dirname(watchStatePath), { recursive: true });
+    await fs.writeFile(watchStatePath, JSON.stringify(state, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('Error saving watch state:', error);
+  }
+}
+
+/**
+ * Create a schedule from a cron expression ("0 7 * * 1-5") or an interval ("6h")
+ */
+export function createWatchSchedule(options: { cron?: string; interval?: string }): WatchSchedule {
+  if (options.cron && options.interval) {
+    throw new Error('Use either a cron expression or an interval, not both');
+  }
+
+  if (options.cron) {
+    const cron = new Cron(options.cron, { paused: true });
+    return {
+      description: `cron "${options.cron}"`,
+      next: after => {
+        const next = cron.nextRun(after);
+        if (!next) {
+          throw new Error(`Cron expression "${options.cron}" has no future runs`);
+        }
+        return next;
+      },
+    };
+  }
+
+  if (options.interval) {
+    const intervalMs = parseDuration(options.interval);
+    return {
+      description: `every ${options.interval}`,
+      next: after => new Date(after.getTime() + intervalMs),
+    };
+  }
+
+  throw new Error('A cron expression (--cron) or an interval (--interval) is required');
+}
+
+/**
+ * Run a task on a schedule, forever. Runs never overlap: the next run is only
+ * scheduled once the current one has finished. Runs missed while the process
+ * was stopped or the machine was asleep are collapsed into a single run.
+ */
+export async function runOnSchedule(
+  schedule: WatchSchedule,
+  task: () => Promise<unknown>
+): Promise<never> {
+  const state = await loadWatchState();
+
+  // A run that fell due while the watcher was stopped is caught up straight away
+  let nextRunAt = state.lastRunAt ? schedule.next(new Date(state.lastRunAt)) : new Date();
+
+  while (true) {
+    const waitMs = nextRunAt.getTime() - Date.now();
+    if (waitMs > 0) {
+      await sleep(Math.min(waitMs, MAX_WAIT_MS));
+      continue;
+    }
+
+    if (Date.now() - nextRunAt.getTime() > MAX_WAIT_MS) {
+      console.log(`Run scheduled for ${nextRunAt.toISOString()} was missed, running once now`);
+    }
+
+    const startedAt = new Date().toISOString();
+    console.log(`\n== WATCH RUN STARTED AT ${startedAt} ==`);
+    if (state.lastSuccessAt) {
+      console.log(`Last successful run started at ${state.lastSuccessAt}`);
+    }
+
+    try {
+      await task();
+      state.lastSuccessAt = startedAt;
+      state.lastError = undefined;
+    } catch (error: any) {
+      console.error('Watch run failed:', error.message);
+      state.lastError = error.message;
+    }
+
+    state.lastRunAt = startedAt;
+    await saveWatchState(state);
+
+    nextRunAt = schedule.next(new Date());
+    console.log(`Next run (${schedule.description}) at ${nextRunAt.toISOString()}`);
+  }
+}